@@ -5,6 +5,18 @@ declare global {
 		GOOGLE_DRIVE_SHARED_DRIVE_ID: string;
 		NOTION_API_KEY: string;
 		NOTION_DATABASE_ID: string;
+		SYNC_STATE: KVNamespace;
+		SYNC_QUEUE: Queue;
+		SYNC_COORDINATOR: DurableObjectNamespace<import("./index").SyncCoordinator>;
+		DEEP_HEADINGS: string;
+		TOGGLE_HEADINGS: string;
+		REMOVED_STATUS: string;
+		MAX_REMOVED_FRACTION: string;
+		FULL_SYNC_INTERVAL_HOURS: string;
+		NOTION_FOLDER_ROOT_PAGE_ID: string;
+		SYNC_MAPPINGS: string;
+		SHEETS_MODE: string;
+		SYNC_FILTER: string;
 	}
 }
 export {};
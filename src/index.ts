@@ -1,84 +1,626 @@
 /**
  * Drive-to-Notion sync Worker.
- * Cron-triggered: recursively traverses a Google shared drive, exports Google Docs
- * to markdown, and upserts them into a Notion database with change detection.
+ * Cron-triggered: lists Google Docs, Sheets and Slides, and uploaded Markdown,
+ * text and Word files, changed in a shared drive (a full recursive crawl on
+ * first run, every FULL_SYNC_INTERVAL_HOURS or with /sync?full=true) and
+ * enqueues one message per doc; the queue consumer exports each doc to
+ * markdown (Sheets as tables or child databases, Slides as outlines) and
+ * upserts it into a Notion database with change detection.
+ * Several drive-to-database mappings can be configured in SYNC_MAPPINGS.
  */
 
-import { listAllGoogleDocs } from "./lib/drive-traversal";
+import type { GoogleDocInfo, ShortcutRecord, ShortcutState } from "./lib/drive-traversal";
+import { listAllGoogleDocs, listChangedGoogleDocs, shortcutState } from "./lib/drive-traversal";
+import type { DriveAuth } from "./lib/google-drive";
 import {
-	exportAsMarkdown,
+	DRIVE_CONVERSION_SCOPE,
+	exportSheetTabAsCsv,
 	getAccessToken,
 	getDriveMetadata,
+	getPresentation,
+	getStartPageToken,
+	GOOGLE_SHEET_MIME,
+	GOOGLE_SLIDES_MIME,
 	listDrives,
+	listSheetTabs,
+	markdownExporters,
 	parseServiceAccountJson,
 } from "./lib/google-drive";
+import { PermanentHttpError, RetryableHttpError } from "./lib/http";
+import type { MarkdownToBlocksOptions, NotionBlock } from "./lib/markdown-to-blocks";
+import { conversionHash, converterKey } from "./lib/markdown-to-blocks";
+import type { ContentProperties, DatabaseSchema, FolderPathPropertyType, NotionPage, PageMetadata } from "./lib/notion";
+import type { SheetTabData } from "./lib/sheets";
+import { parseCsv, sheetTabsToBlocks } from "./lib/sheets";
+import { findRemovedPages } from "./lib/removed-pages";
+import { presentationOutline, presentationUrl, slidesToBlocks } from "./lib/slides";
+import type { SyncMapping } from "./lib/sync-config";
+import { parseSyncMappings } from "./lib/sync-config";
+import { createPathFilter, filterFingerprint } from "./lib/sync-filter";
+import type { MappingCheckpoint, SyncCoordinator } from "./sync-coordinator";
+
+export { SyncCoordinator } from "./sync-coordinator";
 import {
 	createPage,
+	formatFolderPath,
+	getDriveFileId,
+	getFolderPath,
+	getDatabaseSchema,
+	getPageStatus,
+	getPageTitle,
+	queryAllDatabasePages,
 	queryDatabaseByDriveId,
+	removePage,
+	syncFolderTree,
+	syncSheetDatabases,
 	updatePage,
+	updatePageMetadata,
 } from "./lib/notion";
 
-async function runSync(env: Env): Promise<{ synced: number; skipped: number; failed: number }> {
+function conversionOptionsFromEnv(env: Env): MarkdownToBlocksOptions {
+	return {
+		deepHeadings: env.DEEP_HEADINGS === "toggle" ? "toggle" : "bold_paragraph",
+		toggleHeadings: env.TOGGLE_HEADINGS === "true",
+	};
+}
+
+/**
+ * KV key holding a mapping's Drive changes page token to resume incremental
+ * syncs from. It includes the filter, so a changed filter starts with a full
+ * sync that archives the docs no longer passing it.
+ */
+function changesTokenKey(mapping: SyncMapping): string {
+	return `drive-changes-token:${listingKeySuffix(mapping)}`;
+}
+
+/** KV key holding the shortcuts a mapping's last listing found, see ShortcutState. */
+function shortcutStateKey(mapping: SyncMapping): string {
+	return `drive-shortcuts:${listingKeySuffix(mapping)}`;
+}
+
+/** KV key holding when a mapping last completed a full sync, see fullSyncDue. */
+function lastFullSyncKey(mapping: SyncMapping): string {
+	return `drive-full-sync:${listingKeySuffix(mapping)}`;
+}
+
+function listingKeySuffix(mapping: SyncMapping): string {
+	const fingerprint = filterFingerprint(mapping.filter);
+	const suffix = `${mapping.databaseId}:${mapping.folderId ?? mapping.driveId}`;
+	return fingerprint ? `${suffix}:${fingerprint}` : suffix;
+}
+
+/** KV key holding what a doc's page was last rendered from, see RenderRecord. */
+function renderRecordKey(mapping: SyncMapping, docId: string): string {
+	return `render:${mapping.databaseId}:${docId}`;
+}
+
+/** What a page was last rendered from, to skip Notion writes when nothing changed. */
+interface RenderRecord {
+	/** conversionHash of the exported markdown. */
+	hash: string;
+	/** converterKey at render time; a different key forces a re-render. */
+	converter: string;
+}
+
+/** Whether two Drive timestamps are the same instant, however they are formatted. */
+function sameInstant(stored: string | undefined, current: string): boolean {
+	if (!stored) return false;
+	const time = Date.parse(stored);
+	return !Number.isNaN(time) && time === Date.parse(current);
+}
+
+/** A doc's content as exported from Drive, ready to render. */
+interface ExportedContent {
+	/** What the page is rendered from, hashed for change detection. */
+	source: string;
+	markdown: string;
+	/** Ready-made blocks, rendered instead of `markdown`. */
+	blocks?: NotionBlock[];
+	/** Sheet tabs to add as child databases below the blocks. */
+	databases?: SheetTabData[];
+	/** Database properties taken from the content, e.g. a deck's slide count. */
+	properties?: ContentProperties;
+}
+
+/**
+ * Export a Sheet as CSV per tab, a Slides deck as an outline, or anything else
+ * as markdown through its registered exporter. SHEETS_MODE decides whether
+ * tabs become table blocks ("table") or child databases ("database").
+ */
+async function exportContent(env: Env, auth: DriveAuth, doc: GoogleDocInfo): Promise<ExportedContent> {
+	const { accessToken } = auth;
+	if (doc.mimeType === GOOGLE_SLIDES_MIME) {
+		const outline = presentationOutline(await getPresentation(accessToken, doc.id));
+		const url = presentationUrl(doc.id);
+		return {
+			source: JSON.stringify(["slides", outline]),
+			markdown: "",
+			blocks: slidesToBlocks(outline, url),
+			properties: { slideCount: outline.length, sourceUrl: url },
+		};
+	}
+	if (doc.mimeType !== GOOGLE_SHEET_MIME) {
+		const exporter = markdownExporters.get(doc.mimeType);
+		if (!exporter) throw new Error(`No markdown exporter for ${doc.mimeType} (${doc.id})`);
+		const markdown = await exporter(auth, doc.id);
+		return { source: markdown, markdown };
+	}
+
+	const tabs: SheetTabData[] = [];
+	for (const tab of await listSheetTabs(accessToken, doc.id)) {
+		const csv = await exportSheetTabAsCsv(accessToken, doc.id, tab.sheetId);
+		tabs.push({ title: tab.title, rows: parseCsv(csv) });
+	}
+	const asDatabases = env.SHEETS_MODE === "database";
+	return {
+		source: JSON.stringify([asDatabases ? "database" : "table", tabs]),
+		markdown: "",
+		blocks: asDatabases ? [] : sheetTabsToBlocks(tabs),
+		...(asDatabases && { databases: tabs }),
+	};
+}
+
+/** Queue messages: one per doc to export and upsert, plus a delayed folder tree rebuild per mapping. */
+type SyncMessage =
+	| { kind: "doc"; runId: string; mapping: string; doc: GoogleDocInfo }
+	| { kind: "folder-tree"; mapping: string };
+
+/** Queue.sendBatch accepts at most 100 messages per call. */
+const MESSAGES_PER_SEND = 100;
+/**
+ * Permanent failures that point at the setup rather than the doc, e.g. a
+ * revoked Notion key or a database not shared with the integration. They are
+ * retried like transient errors, so the docs sync once the setup is fixed or
+ * end up in the dead-letter queue instead of being dropped.
+ */
+const CONFIGURATION_ERROR_STATUSES = new Set([401, 403, 404]);
+/** Delay before retrying a doc that another consumer is still upserting. */
+const DOC_BUSY_RETRY_SECONDS = 30;
+/** Gives the consumer time to upsert a run's docs before the folder tree is rebuilt from the database. */
+const FOLDER_TREE_DELAY_SECONDS = 300;
+/** How often a long listing or removal pass renews the run's lease; well within RUN_LEASE_MS. */
+const HEARTBEAT_INTERVAL_MS = 60_000;
+
+interface SyncResult {
+	mode: "full" | "incremental";
+	queued: number;
+	removed: number;
+	failed: number;
+	/** Pages of docs that look gone but were kept by the MAX_REMOVED_FRACTION safety limit. */
+	refused: number;
+}
+
+/** Outcome of one mapping; a mapping that throws does not stop the others. */
+type MappingSyncResult =
+	| ({ mapping: string; ok: true } & SyncResult)
+	| { mapping: string; ok: false; error: string };
+
+interface SyncRunResult {
+	runId: string;
+	/** "busy" when another run still holds the lock; nothing is listed then. */
+	status: "started" | "resumed" | "busy";
+	results: MappingSyncResult[];
+}
+
+/** The single coordinator that owns the sync lock, checkpoints and progress. */
+function syncCoordinator(env: Env): DurableObjectStub<SyncCoordinator> {
+	return env.SYNC_COORDINATOR.get(env.SYNC_COORDINATOR.idFromName("sync"));
+}
+
+function describeResult(result: MappingSyncResult): string {
+	if (!result.ok) return `Sync failed for ${result.mapping}: ${result.error}`;
+	const refused = result.refused > 0 ? `, ${result.refused} removal(s) refused` : "";
+	return `Sync queued for ${result.mapping} (${result.mode}): ${result.queued} doc(s) queued, ${result.removed} removed, ${result.failed} failed${refused}`;
+}
+
+/**
+ * Title and folder path that differ between a doc and its existing page, and
+ * a "Status" to clear when the page was marked removed but its doc is back.
+ */
+function changedMetadata(
+	page: NotionPage,
+	doc: GoogleDocInfo,
+	folderPathType: FolderPathPropertyType | null,
+	removedStatus: string | undefined
+): PageMetadata {
+	const metadata: PageMetadata = {};
+	if (removedStatus && getPageStatus(page) === removedStatus) {
+		metadata.clearStatus = { type: page.properties.Status.type };
+	}
+	if (getPageTitle(page) !== doc.name) {
+		metadata.title = doc.name;
+	}
+	if (folderPathType) {
+		const path = formatFolderPath(doc.folderPath, folderPathType);
+		if (getFolderPath(page) !== path) metadata.folderPath = { path, type: folderPathType };
+	}
+	return metadata;
+}
+
+/** The content's properties that the database has and that differ from the existing page, if any. */
+function changedContentProperties(page: NotionPage | null, content: ExportedContent, schema: DatabaseSchema): ContentProperties {
+	const { slideCount, sourceUrl } = content.properties ?? {};
+	const changed: ContentProperties = {};
+	if (schema.slideCount && slideCount !== undefined && page?.properties["Slide Count"]?.number !== slideCount) {
+		changed.slideCount = slideCount;
+	}
+	if (schema.sourceUrl && sourceUrl !== undefined && page?.properties["Source URL"]?.url !== sourceUrl) {
+		changed.sourceUrl = sourceUrl;
+	}
+	return changed;
+}
+
+/** Default for FULL_SYNC_INTERVAL_HOURS: a full sync once a week. */
+const DEFAULT_FULL_SYNC_INTERVAL_HOURS = 168;
+
+/**
+ * Whether a mapping is due a periodic full sync. The changes feed does not
+ * report docs that left with a removed or trashed folder, and a refused
+ * removal is not retried by incremental runs; a full crawl catches both.
+ */
+async function fullSyncDue(env: Env, mapping: SyncMapping): Promise<boolean> {
+	const configured = Number.parseFloat(env.FULL_SYNC_INTERVAL_HOURS);
+	const hours = Number.isFinite(configured) ? configured : DEFAULT_FULL_SYNC_INTERVAL_HOURS;
+	if (hours <= 0) return false;
+	const last = Date.parse((await env.SYNC_STATE.get(lastFullSyncKey(mapping))) ?? "");
+	return Number.isNaN(last) || Date.now() - last >= hours * 3_600_000;
+}
+
+/** Access tokens per impersonated user and scope, shared by everything handled in one invocation. */
+function accessTokenCache(env: Env): (user: string, scope?: string) => Promise<string> {
 	const credentials = parseServiceAccountJson(env.GOOGLE_SERVICE_ACCOUNT_JSON);
+	const tokens = new Map<string, Promise<string>>();
+	return (user, scope) => {
+		const key = `${user} ${scope ?? ""}`;
+		let token = tokens.get(key);
+		if (!token) {
+			console.log(`[sync] Getting JWT access token for ${user}...`);
+			token = getAccessToken(credentials, user, scope);
+			tokens.set(key, token);
+		}
+		return token;
+	};
+}
 
-	console.log("[sync] Getting JWT access token...");
-	const accessToken = await getAccessToken(
-		credentials,
-		env.GOOGLE_IMPERSONATE_USER
-	);
-	console.log("[sync] JWT access token obtained");
+/**
+ * List one mapping's changed Google Docs and enqueue a message per doc for the
+ * queue consumer. Runs incrementally from the stored Drive changes token when
+ * there is one; does a full crawl on the first run, when `full` is set or
+ * when a periodic full sync is due.
+ * The listing is checkpointed in the coordinator: when `checkpoint` is given,
+ * an interrupted run picks up with the docs it had not enqueued yet.
+ * Pages of removed docs are handled here directly.
+ */
+async function enqueueMapping(
+	env: Env,
+	mapping: SyncMapping,
+	accessToken: string,
+	run: { id: string; coordinator: DurableObjectStub<SyncCoordinator>; checkpoint?: MappingCheckpoint },
+	options: { full?: boolean }
+): Promise<SyncResult> {
+	const { driveId } = mapping;
+	const rootFolderId = mapping.folderId ?? driveId;
+	const filter = createPathFilter(mapping.filter);
+	const { checkpoint, coordinator } = run;
+	const listAll = options.full || checkpoint || (await fullSyncDue(env, mapping));
+	const storedToken = listAll ? null : await env.SYNC_STATE.get(changesTokenKey(mapping));
+	const mode = checkpoint?.mode ?? (storedToken ? "incremental" : "full");
+	let lastHeartbeat = Date.now();
+	const heartbeat = async () => {
+		if (Date.now() - lastHeartbeat < HEARTBEAT_INTERVAL_MS) return;
+		lastHeartbeat = Date.now();
+		await coordinator.heartbeat(run.id);
+	};
+
+	let docs: GoogleDocInfo[];
+	let shortcuts: ShortcutRecord[];
+	let removedIds: string[] = [];
+	let nextToken: string;
+	if (checkpoint) {
+		console.log(`[sync] Resuming after ${checkpoint.enqueued} of ${checkpoint.total} queued doc(s)...`);
+		docs = await coordinator.listedDocs(run.id, mapping.name);
+		shortcuts = await coordinator.listedShortcuts(run.id, mapping.name);
+		removedIds = checkpoint.removedIds;
+		nextToken = checkpoint.nextToken;
+	} else if (storedToken) {
+		console.log("[sync] Listing changed Google Docs since last run...");
+		const previous = await env.SYNC_STATE.get<ShortcutState>(shortcutStateKey(mapping), "json");
+		const changes = await listChangedGoogleDocs(accessToken, driveId, storedToken, {
+			rootFolderId,
+			filter,
+			previous: previous ?? undefined,
+			onProgress: heartbeat,
+		});
+		({ docs, shortcuts, removedIds } = changes);
+		nextToken = changes.newStartPageToken;
+	} else {
+		// Take the token before crawling so edits made during the crawl are picked up next run
+		nextToken = await getStartPageToken(accessToken, driveId);
+		console.log("[sync] Listing Google Docs from drive...");
+		({ docs, shortcuts } = await listAllGoogleDocs(accessToken, driveId, { rootFolderId, filter, onProgress: heartbeat }));
+	}
+	console.log(`[sync] Found ${docs.length} Google Doc(s) (${mode}), queueing...`);
+	if (!checkpoint) {
+		await coordinator.saveListing(run.id, mapping.name, { mode, docs, shortcuts, removedIds, nextToken });
+	}
 
-	console.log("[sync] Listing Google Docs from drive...");
-	const docs = await listAllGoogleDocs(accessToken, env.GOOGLE_DRIVE_SHARED_DRIVE_ID);
-	console.log(`[sync] Found ${docs.length} Google Doc(s), processing...`);
+	const messages = docs.map((doc) => ({
+		body: { kind: "doc", runId: run.id, mapping: mapping.name, doc } satisfies SyncMessage,
+	}));
+	for (let i = checkpoint?.enqueued ?? 0; i < messages.length; i += MESSAGES_PER_SEND) {
+		const batch = messages.slice(i, i + MESSAGES_PER_SEND);
+		await env.SYNC_QUEUE.sendBatch(batch);
+		await coordinator.markEnqueued(run.id, mapping.name, i + batch.length);
+	}
 
-	let synced = 0;
-	let skipped = 0;
+	let removed = 0;
 	let failed = 0;
+	const { pages: removedPages, refused } = await findRemovedPages(
+		env.NOTION_API_KEY,
+		mapping.databaseId,
+		{ mode, docs, removedIds },
+		{ maxRemovedFraction: env.MAX_REMOVED_FRACTION, removedStatus: env.REMOVED_STATUS || undefined }
+	);
+	for (const page of removedPages) {
+		try {
+			await removePage(env.NOTION_API_KEY, page, env.REMOVED_STATUS || undefined);
+			console.log(`[sync] Notion page removed: ${getDriveFileId(page)}`);
+			removed++;
+		} catch (err) {
+			console.error(`Failed to remove Notion page ${page.id}:`, err);
+			failed++;
+		}
+		await heartbeat();
+	}
+
+	if (mapping.folderRootPageId && (mode === "full" || docs.length > 0 || removed > 0)) {
+		await env.SYNC_QUEUE.send({ kind: "folder-tree", mapping: mapping.name } satisfies SyncMessage, {
+			delaySeconds: FOLDER_TREE_DELAY_SECONDS,
+		});
+	}
+
+	// Queued docs are retried by the queue; keep the old token only when removals failed or were
+	// refused, so the next run lists again (a refused full run stays full until the limit allows it)
+	if (failed === 0 && refused === 0) {
+		await env.SYNC_STATE.put(shortcutStateKey(mapping), JSON.stringify(shortcutState({ docs, shortcuts })));
+		await env.SYNC_STATE.put(changesTokenKey(mapping), nextToken);
+		if (mode === "full") await env.SYNC_STATE.put(lastFullSyncKey(mapping), new Date().toISOString());
+	}
+	await coordinator.finishMapping(run.id, mapping.name, removed, refused);
+
+	return { mode, queued: docs.length, removed, failed, refused };
+}
+
+/**
+ * Export one doc and create or update its Notion page. Comments and sharing
+ * changes also bump modifiedTime, so the exported content is hashed and the
+ * page is only re-rendered when its content or the converter changed.
+ */
+async function syncDoc(
+	env: Env,
+	mapping: SyncMapping,
+	auth: DriveAuth,
+	doc: GoogleDocInfo,
+	schema: DatabaseSchema
+): Promise<"created" | "updated" | "metadata" | "unchanged" | "skipped"> {
+	const { folderPathType } = schema;
+	const existing = await queryDatabaseByDriveId(
+		env.NOTION_API_KEY,
+		mapping.databaseId,
+		doc.id
+	);
+
+	const driveModified = doc.modifiedTime;
+	const conversion = conversionOptionsFromEnv(env);
+	// Sheets render differently per SHEETS_MODE, so switching modes re-renders them
+	const converter = doc.mimeType === GOOGLE_SHEET_MIME ? `${converterKey(conversion)} ${env.SHEETS_MODE}` : converterKey(conversion);
+	const recordKey = renderRecordKey(mapping, doc.id);
+	const record = existing ? await env.SYNC_STATE.get<RenderRecord>(recordKey, "json") : null;
+	const metadata = existing ? changedMetadata(existing, doc, folderPathType, env.REMOVED_STATUS || undefined) : {};
+
+	if (existing && record?.converter === converter) {
+		const storedModified = existing.properties["Drive Modified"]?.date?.start;
+		if (sameInstant(storedModified, driveModified)) {
+			// Moving a doc (or its folder) leaves modifiedTime alone
+			if (Object.keys(metadata).length === 0) return "skipped";
+			await updatePageMetadata(env.NOTION_API_KEY, existing.id, metadata);
+			return "metadata";
+		}
+	}
+
+	const content = await exportContent(env, auth, doc);
+	const hash = await conversionHash(content.source, conversion);
+	const rendered: RenderRecord = { hash, converter };
+
+	if (existing) {
+		Object.assign(metadata, changedContentProperties(existing, content, schema));
+		if (record?.hash === hash) {
+			// Renames also bump modifiedTime; the title is all that changed then
+			await updatePageMetadata(env.NOTION_API_KEY, existing.id, { ...metadata, driveModified });
+			return Object.keys(metadata).length > 0 ? "metadata" : "unchanged";
+		}
+		await updatePage(env.NOTION_API_KEY, existing.id, {
+			markdown: content.markdown,
+			blocks: content.blocks,
+			driveModified,
+			metadata,
+			imageCache: env.SYNC_STATE,
+			conversion,
+		});
+		if (doc.mimeType === GOOGLE_SHEET_MIME) {
+			// Also clears the databases of a sheet now rendered as tables
+			await syncSheetDatabases(env.NOTION_API_KEY, existing.id, content.databases ?? []);
+		}
+		await env.SYNC_STATE.put(recordKey, JSON.stringify(rendered));
+		return "updated";
+	}
+
+	const pageId = await createPage(env.NOTION_API_KEY, mapping.databaseId, {
+		title: doc.name,
+		driveFileId: doc.id,
+		driveModified,
+		markdown: content.markdown,
+		blocks: content.blocks,
+		...(folderPathType && {
+			folderPath: { path: formatFolderPath(doc.folderPath, folderPathType), type: folderPathType },
+		}),
+		properties: changedContentProperties(null, content, schema),
+		imageCache: env.SYNC_STATE,
+		conversion,
+	});
+	if (content.databases) {
+		await syncSheetDatabases(env.NOTION_API_KEY, pageId, content.databases);
+	}
+	await env.SYNC_STATE.put(recordKey, JSON.stringify(rendered));
+	return "created";
+}
+
+async function rebuildFolderTree(env: Env, mapping: SyncMapping, folderPathType: FolderPathPropertyType | null) {
+	if (!mapping.folderRootPageId) return;
+	if (!folderPathType) {
+		throw new Error('A folder root page requires a "Folder Path" text or select property in the Notion database');
+	}
+	const pages = await queryAllDatabasePages(env.NOTION_API_KEY, mapping.databaseId);
+	await syncFolderTree(env.NOTION_API_KEY, mapping.folderRootPageId, pages);
+}
+
+/**
+ * Queue consumer: export and upsert each queued doc. Failed messages are
+ * retried by the queue and land in the dead-letter queue after max_retries,
+ * except for payloads Notion or Drive reject, which no retry can fix.
+ */
+async function handleSyncBatch(batch: MessageBatch<SyncMessage>, env: Env): Promise<void> {
+	const mappings = new Map(parseSyncMappings(env).map((mapping) => [mapping.name, mapping]));
+	const accessTokenFor = accessTokenCache(env);
+	const coordinator = syncCoordinator(env);
+	const schemas = new Map<string, Promise<DatabaseSchema>>();
+	const schemaFor = (databaseId: string) => {
+		let schema = schemas.get(databaseId);
+		if (!schema) {
+			schema = getDatabaseSchema(env.NOTION_API_KEY, databaseId);
+			schemas.set(databaseId, schema);
+		}
+		return schema;
+	};
+
+	for (const message of batch.messages) {
+		const body = message.body;
+		const mapping = mappings.get(body.mapping);
+		if (!mapping) {
+			// The mapping was removed from SYNC_MAPPINGS since the message was queued
+			console.error(`[sync] Dropping message for unknown mapping ${body.mapping}`);
+			message.ack();
+			continue;
+		}
+
+		// Two consumers upserting the same doc at once could both create a page for it
+		if (body.kind === "doc" && !(await coordinator.claimDoc(mapping.name, body.doc.id))) {
+			message.retry({ delaySeconds: DOC_BUSY_RETRY_SECONDS });
+			continue;
+		}
+		const release = async (outcome: "processed" | "failed" | "retry") => {
+			if (body.kind === "doc") await coordinator.releaseDoc(body.runId, mapping.name, body.doc.id, outcome);
+		};
 
-	for (const doc of docs) {
 		try {
-			const existing = await queryDatabaseByDriveId(
-				env.NOTION_API_KEY,
-				env.NOTION_DATABASE_ID,
-				doc.id
-			);
-
-			const driveModified = doc.modifiedTime;
-
-			if (existing) {
-				const storedModified = existing.properties["Drive Modified"]?.date?.start;
-				if (storedModified && storedModified === driveModified) {
-					skipped++;
-					continue;
-				}
+			const schema = await schemaFor(mapping.databaseId);
+			if (body.kind === "folder-tree") {
+				await rebuildFolderTree(env, mapping, schema.folderPathType);
+				console.log(`[sync] Notion folder tree updated for ${mapping.name}`);
+			} else {
+				const auth: DriveAuth = {
+					accessToken: await accessTokenFor(mapping.impersonateUser),
+					conversionAccessToken: () => accessTokenFor(mapping.impersonateUser, DRIVE_CONVERSION_SCOPE),
+				};
+				const outcome = await syncDoc(env, mapping, auth, body.doc, schema);
+				console.log(`[sync] ${body.doc.name}: ${outcome}`);
+			}
+			await release("processed");
+			message.ack();
+		} catch (err) {
+			const subject = body.kind === "doc" ? `${body.doc.name} (${body.doc.id})` : `folder tree of ${mapping.name}`;
+			if (err instanceof PermanentHttpError && !CONFIGURATION_ERROR_STATUSES.has(err.status)) {
+				// Retrying cannot fix e.g. a rejected payload; the doc is synced again on its next edit
+				console.error(`Failed to sync ${subject}, not retrying:`, err);
+				await release("failed");
+				message.ack();
+				continue;
 			}
+			console.error(`Failed to sync ${subject}, attempt ${message.attempts}:`, err);
+			await release("retry");
+			if (err instanceof RetryableHttpError && err.retryAfterMs !== undefined) {
+				message.retry({ delaySeconds: Math.ceil(err.retryAfterMs / 1000) });
+			} else {
+				message.retry();
+			}
+		}
+	}
+}
+
+/** The mapping named by the debug endpoints' `?mapping=` parameter, or the first one. */
+function selectMapping(env: Env, name: string | null): SyncMapping {
+	const mappings = parseSyncMappings(env);
+	if (!name) return mappings[0];
+	const mapping = mappings.find((m) => m.name === name);
+	if (!mapping) {
+		throw new Error(`No sync mapping named "${name}"`);
+	}
+	return mapping;
+}
+
+/**
+ * List and enqueue every configured mapping in turn, reporting results per
+ * mapping. Holds the coordinator's run lock throughout; a run that was
+ * interrupted before releasing it is resumed from its checkpoints.
+ */
+async function runSync(env: Env, options: { full?: boolean } = {}): Promise<SyncRunResult> {
+	const coordinator = syncCoordinator(env);
+	const begun = await coordinator.begin();
+	const runId = begun.run.id;
+	if (begun.status === "busy") {
+		console.log(`[sync] Run ${runId} is still in progress, skipping`);
+		return { runId, status: "busy", results: [] };
+	}
+	console.log(`[sync] Run ${runId} ${begun.status}`);
 
-			const markdown = await exportAsMarkdown(accessToken, doc.id);
+	const results: MappingSyncResult[] = [];
+	// An error releases the lock; an evicted Worker leaves it to expire and be resumed
+	try {
+		const mappings = parseSyncMappings(env);
+		const accessTokenFor = accessTokenCache(env);
 
-			if (existing) {
-				await updatePage(env.NOTION_API_KEY, existing.id, {
-					markdown,
-					driveModified,
+		for (const mapping of mappings) {
+			const checkpoint = begun.run.mappings[mapping.name];
+			if (checkpoint?.stage === "done") {
+				results.push({
+					mapping: mapping.name,
+					ok: true,
+					mode: checkpoint.mode,
+					queued: checkpoint.total,
+					removed: checkpoint.removed,
+					failed: 0,
+					refused: checkpoint.refused ?? 0,
 				});
-				console.log(`[sync] Notion page updated: ${doc.name}`);
-			} else {
-				await createPage(env.NOTION_API_KEY, env.NOTION_DATABASE_ID, {
-					title: doc.name,
-					driveFileId: doc.id,
-					driveModified,
-					markdown,
+				continue;
+			}
+			try {
+				console.log(`[sync] Listing mapping ${mapping.name}...`);
+				const accessToken = await accessTokenFor(mapping.impersonateUser);
+				const result = await enqueueMapping(env, mapping, accessToken, { id: runId, coordinator, checkpoint }, options);
+				results.push({ mapping: mapping.name, ok: true, ...result });
+			} catch (err) {
+				console.error(`[sync] Mapping ${mapping.name} failed:`, err);
+				results.push({
+					mapping: mapping.name,
+					ok: false,
+					error: err instanceof Error ? err.message : String(err),
 				});
-				console.log(`[sync] Notion page created: ${doc.name}`);
 			}
-			synced++;
-		} catch (err) {
-			console.error(`Failed to sync ${doc.name} (${doc.id}):`, err);
-			failed++;
 		}
+	} finally {
+		await coordinator.finish(runId);
 	}
-
-	return { synced, skipped, failed };
+	return { runId, status: begun.status, results };
 }
 
 export default {
@@ -90,21 +632,23 @@ export default {
 		const url = new URL(request.url);
 		if (url.pathname === "/debug-drive-list") {
 			try {
+				const mapping = selectMapping(env, url.searchParams.get("mapping"));
 				const credentials = parseServiceAccountJson(env.GOOGLE_SERVICE_ACCOUNT_JSON);
 				const accessToken = await getAccessToken(
 					credentials,
-					env.GOOGLE_IMPERSONATE_USER
+					mapping.impersonateUser
 				);
 				const useDomainAdmin = url.searchParams.get("useDomainAdmin") === "true";
 				const drives = await listDrives(accessToken, {
 					useDomainAdminAccess: useDomainAdmin,
 				});
-				const configuredId = env.GOOGLE_DRIVE_SHARED_DRIVE_ID;
+				const configuredId = mapping.driveId;
 				const match = drives.find((d) => d.id === configuredId);
 
 				return new Response(
 					JSON.stringify({
 						ok: true,
+						mapping: mapping.name,
 						configuredDriveId: configuredId,
 						configuredIdInList: match !== undefined,
 						drives: drives.map((d) => ({
@@ -125,10 +669,11 @@ export default {
 		}
 		if (url.pathname === "/debug-drive") {
 			try {
+				const mapping = selectMapping(env, url.searchParams.get("mapping"));
 				const credentials = parseServiceAccountJson(env.GOOGLE_SERVICE_ACCOUNT_JSON);
 				const accessToken = await getAccessToken(
 					credentials,
-					env.GOOGLE_IMPERSONATE_USER
+					mapping.impersonateUser
 				);
 				const useDomainAdmin = url.searchParams.get("useDomainAdmin") === "true";
 
@@ -136,7 +681,7 @@ export default {
 				try {
 					drive = await getDriveMetadata(
 						accessToken,
-						env.GOOGLE_DRIVE_SHARED_DRIVE_ID,
+						mapping.driveId,
 						{ useDomainAdminAccess: useDomainAdmin }
 					);
 				} catch (firstErr) {
@@ -145,7 +690,7 @@ export default {
 						try {
 							drive = await getDriveMetadata(
 								accessToken,
-								env.GOOGLE_DRIVE_SHARED_DRIVE_ID,
+								mapping.driveId,
 								{ useDomainAdminAccess: true }
 							);
 							return new Response(
@@ -185,17 +730,27 @@ export default {
 				);
 			}
 		}
+		if (url.pathname === "/sync/status") {
+			const run = await syncCoordinator(env).progress();
+			return new Response(JSON.stringify({ ok: true, run }), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
 		if (url.pathname === "/sync") {
 			try {
-				const result = await runSync(env);
-				const message = `Sync complete: ${result.synced} synced, ${result.skipped} skipped, ${result.failed} failed`;
+				const { runId, status, results } = await runSync(env, { full: url.searchParams.get("full") === "true" });
+				const message =
+					status === "busy"
+						? `Sync run ${runId} is still in progress, see /sync/status`
+						: results.map(describeResult).join("\n");
 				console.log(`[sync] ${message}`);
 				return new Response(
 					JSON.stringify({
-						ok: true,
-						synced: result.synced,
-						skipped: result.skipped,
-						failed: result.failed,
+						ok: status !== "busy" && results.every((result) => result.ok),
+						runId,
+						status,
+						results,
 						message,
 					}),
 					{
@@ -234,14 +789,18 @@ export default {
 	): Promise<void> {
 		ctx.waitUntil(
 			runSync(env)
-				.then((result) => {
-					console.log(
-						`Sync complete: ${result.synced} synced, ${result.skipped} skipped, ${result.failed} failed`
-					);
+				.then(({ results }) => {
+					for (const result of results) {
+						console.log(describeResult(result));
+					}
 				})
 				.catch((err) => {
 					console.error("Sync failed:", err);
 				})
 		);
 	},
-} satisfies ExportedHandler<Env>;
+
+	async queue(batch: MessageBatch<SyncMessage>, env: Env): Promise<void> {
+		await handleSyncBatch(batch, env);
+	},
+} satisfies ExportedHandler<Env, SyncMessage>;
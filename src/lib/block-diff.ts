@@ -0,0 +1,216 @@
+/**
+ * Block-level diff between a page's existing Notion blocks and freshly
+ * converted blocks, so page updates only touch the blocks that changed.
+ */
+
+import type { NotionBlock } from "./markdown-to-blocks";
+import { footnoteMarkerNumber } from "./markdown-to-blocks";
+
+/** A block as returned by Notion's block children endpoint. */
+export interface ExistingBlock {
+	id: string;
+	type: string;
+	has_children?: boolean;
+	[key: string]: unknown;
+}
+
+export type BlockDiffOp =
+	| { op: "keep"; existing: ExistingBlock; block: NotionBlock }
+	| { op: "update"; existing: ExistingBlock; block: NotionBlock }
+	| { op: "insert"; block: NotionBlock }
+	| { op: "delete"; existing: ExistingBlock };
+
+type RichTextLike = {
+	type?: string;
+	text?: { content?: string; link?: { url?: string } | null };
+	equation?: { expression?: string };
+	annotations?: Record<string, unknown>;
+};
+
+type BlockContentLike = Record<string, unknown> & {
+	rich_text?: RichTextLike[];
+	caption?: RichTextLike[];
+	cells?: RichTextLike[][];
+	icon?: { emoji?: string } | null;
+};
+
+const ANNOTATION_FLAGS = ["bold", "italic", "strikethrough", "underline", "code"] as const;
+
+/**
+ * Normalize rich text for comparison: fill in Notion's default annotations and
+ * merge adjacent runs with identical formatting, since Notion may return the
+ * same text split differently than it was sent. Links on footnote markers are
+ * ignored; they are added to the page after it is written.
+ */
+function normalizeRichText(items: RichTextLike[] | undefined): Array<[string, string, string, string]> {
+	const result: Array<[string, string, string, string]> = [];
+	for (const item of items ?? []) {
+		const annotations = [
+			...ANNOTATION_FLAGS.map((flag) => item.annotations?.[flag] === true),
+			item.annotations?.color ?? "default",
+		].join(",");
+		if (item.type === "equation") {
+			result.push(["equation", item.equation?.expression ?? "", "", annotations]);
+			continue;
+		}
+		const content = item.text?.content ?? "";
+		const link = footnoteMarkerNumber(content) === null ? (item.text?.link?.url ?? "") : "";
+		const last = result[result.length - 1];
+		if (last && last[0] === "text" && last[2] === link && last[3] === annotations) {
+			last[1] += content;
+		} else {
+			result.push(["text", content, link, annotations]);
+		}
+	}
+	return result;
+}
+
+function imageSource(content: Record<string, unknown>, uploadNames: Map<string, string>): string | null {
+	const source = content as {
+		type?: string;
+		external?: { url?: string };
+		file?: { url?: string };
+		file_upload?: { id?: string };
+	};
+	if (source.type === "external") return `external:${source.external?.url ?? ""}`;
+	if (source.type === "file_upload") {
+		const id = source.file_upload?.id ?? "";
+		return `file:${uploadNames.get(id) ?? id}`;
+	}
+	if (source.type === "file") {
+		// Notion-hosted files come back as signed URLs; the path ends with the uploaded file name
+		try {
+			const path = new URL(source.file?.url ?? "").pathname;
+			return `file:${decodeURIComponent(path.slice(path.lastIndexOf("/") + 1))}`;
+		} catch {
+			return "file:";
+		}
+	}
+	return null;
+}
+
+/**
+ * Signature of a block's own content, excluding children. Equal signatures
+ * mean the block can be kept as is.
+ */
+export function blockSignature(
+	block: NotionBlock | ExistingBlock,
+	uploadNames: Map<string, string> = new Map()
+): string {
+	const content = ((block as Record<string, unknown>)[block.type] ?? {}) as BlockContentLike;
+	return JSON.stringify([
+		block.type,
+		normalizeRichText(content.rich_text),
+		normalizeRichText(content.caption),
+		content.cells?.map((cell) => normalizeRichText(cell)) ?? null,
+		content.language ?? null,
+		content.checked === true,
+		content.color ?? "default",
+		content.icon?.emoji ?? null,
+		content.is_toggleable === true,
+		content.expression ?? null,
+		content.table_width ?? null,
+		content.has_column_header === true,
+		content.has_row_header === true,
+		block.type === "image" ? imageSource(content, uploadNames) : null,
+	]);
+}
+
+/** Whether an existing block can be patched into `block` rather than replaced. */
+export function canUpdateInPlace(existing: ExistingBlock, block: NotionBlock): boolean {
+	if (existing.type !== block.type) return false;
+	if (block.type === "table") {
+		// Notion cannot change a table's width after creation
+		const width = (existing.table as { table_width?: number } | undefined)?.table_width;
+		return width === block.table.table_width;
+	}
+	return true;
+}
+
+/**
+ * Diff existing children against new blocks. Blocks are aligned on their
+ * content signatures (longest common subsequence); in between aligned blocks,
+ * removed and added blocks of the same type are paired up as in-place updates.
+ * Operations are returned in document order.
+ */
+export function diffBlocks(
+	existing: ExistingBlock[],
+	blocks: NotionBlock[],
+	uploadNames: Map<string, string> = new Map()
+): BlockDiffOp[] {
+	const oldSigs = existing.map((block) => blockSignature(block, uploadNames));
+	const newSigs = blocks.map((block) => blockSignature(block, uploadNames));
+
+	// Unchanged leading and trailing blocks are kept as is, so a typical edit
+	// only needs the LCS table for the few blocks around it
+	let prefix = 0;
+	while (prefix < existing.length && prefix < blocks.length && oldSigs[prefix] === newSigs[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < existing.length - prefix &&
+		suffix < blocks.length - prefix &&
+		oldSigs[existing.length - 1 - suffix] === newSigs[blocks.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	const oldEnd = existing.length - suffix;
+	const newEnd = blocks.length - suffix;
+
+	// lcs[i][j] = length of the LCS of oldSigs[prefix + i..oldEnd) and newSigs[prefix + j..newEnd)
+	const rows = oldEnd - prefix;
+	const columns = newEnd - prefix;
+	const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = columns - 1; j >= 0; j--) {
+			lcs[i][j] =
+				oldSigs[prefix + i] === newSigs[prefix + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const ops: BlockDiffOp[] = [];
+	for (let k = 0; k < prefix; k++) {
+		ops.push({ op: "keep", existing: existing[k], block: blocks[k] });
+	}
+	let removed: ExistingBlock[] = [];
+	let added: NotionBlock[] = [];
+
+	const flushChanges = () => {
+		const paired = Math.min(removed.length, added.length);
+		for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+			const oldBlock = removed[k];
+			const newBlock = added[k];
+			if (k < paired && canUpdateInPlace(oldBlock, newBlock)) {
+				ops.push({ op: "update", existing: oldBlock, block: newBlock });
+				continue;
+			}
+			if (oldBlock) ops.push({ op: "delete", existing: oldBlock });
+			if (newBlock) ops.push({ op: "insert", block: newBlock });
+		}
+		removed = [];
+		added = [];
+	};
+
+	let i = prefix;
+	let j = prefix;
+	while (i < oldEnd || j < newEnd) {
+		if (i < oldEnd && j < newEnd && oldSigs[i] === newSigs[j]) {
+			flushChanges();
+			ops.push({ op: "keep", existing: existing[i], block: blocks[j] });
+			i++;
+			j++;
+		} else if (j >= newEnd || (i < oldEnd && lcs[i - prefix + 1][j - prefix] >= lcs[i - prefix][j - prefix + 1])) {
+			removed.push(existing[i]);
+			i++;
+		} else {
+			added.push(blocks[j]);
+			j++;
+		}
+	}
+	flushChanges();
+
+	for (let k = 0; k < suffix; k++) {
+		ops.push({ op: "keep", existing: existing[oldEnd + k], block: blocks[newEnd + k] });
+	}
+
+	return ops;
+}
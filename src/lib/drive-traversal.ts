@@ -1,68 +1,372 @@
 /**
- * Recursively traverse a Google shared drive and collect all Google Docs.
+ * Recursively traverse a Google shared drive and collect all Google Docs,
+ * Sheets and Slides, and uploaded files with a markdown exporter, or list only
+ * those changed since a Drive changes page token. Shortcuts are followed to
+ * the docs and folders they point to, including ones in other drives, and
+ * listed at the shortcut's path. A PathFilter decides which docs are listed
+ * and which folders are crawled.
  */
 
 import type { DriveFile } from "./google-drive";
-import { listFiles } from "./google-drive";
+import { PermanentHttpError } from "./http";
+import type { PathFilter } from "./sync-filter";
+import { createPathFilter } from "./sync-filter";
+import {
+	getFile,
+	GOOGLE_SHEET_MIME,
+	GOOGLE_SLIDES_MIME,
+	listChanges,
+	listFiles,
+	markdownExporters,
+} from "./google-drive";
 
-const GOOGLE_DOC_MIME = "application/vnd.google-apps.document";
 const FOLDER_MIME = "application/vnd.google-apps.folder";
+const SHORTCUT_MIME = "application/vnd.google-apps.shortcut";
+
+/** Whether files of this type are synced into Notion; everything else is ignored. */
+function isSynced(mimeType: string): boolean {
+	return mimeType === GOOGLE_SHEET_MIME || mimeType === GOOGLE_SLIDES_MIME || markdownExporters.has(mimeType);
+}
 
 export interface GoogleDocInfo {
 	id: string;
 	name: string;
+	mimeType: string;
 	modifiedTime: string;
+	/** The doc's own parents, also when it was listed through a shortcut. */
 	parents?: string[];
+	/** Folder names from the drive root down to the doc's parent folder, or to the shortcut it was listed through. */
+	folderPath: string[];
+	/** The shortcut in the drive the doc was listed through, when it is not inside the root itself. */
+	shortcutId?: string;
 }
 
-async function listFilesRecursive(
+/** A shortcut in the drive, kept so incremental runs can list its target again. */
+export interface ShortcutRecord {
+	id: string;
+	targetId: string;
+	targetMimeType: string;
+	/** Folder path of the shortcut itself. */
+	folderPath: string[];
+}
+
+/** What a listing found through shortcuts, to pass to the next incremental listing. */
+export interface ShortcutState {
+	shortcuts: ShortcutRecord[];
+	/** Docs listed through a shortcut only. */
+	docIds: string[];
+}
+
+export interface ListingOptions {
+	/** Folder to list instead of the whole drive; folder paths are relative to it. */
+	rootFolderId?: string;
+	/** Decides which docs are listed and which folders are crawled. */
+	filter?: PathFilter;
+	/** Called after each page of files or changes, e.g. to renew the sync run's lease. */
+	onProgress?: () => Promise<void>;
+}
+
+export interface GoogleDocListing {
+	docs: GoogleDocInfo[];
+	shortcuts: ShortcutRecord[];
+}
+
+/** The file or folder a shortcut points to, or null when it is neither synced nor a folder, or unreadable. */
+async function resolveShortcut(
 	accessToken: string,
-	driveId: string,
+	target: { targetId: string; targetMimeType: string }
+): Promise<DriveFile | null> {
+	if (target.targetMimeType !== FOLDER_MIME && !isSynced(target.targetMimeType)) {
+		return null;
+	}
+	try {
+		return await getFile(accessToken, target.targetId);
+	} catch (err) {
+		if (err instanceof PermanentHttpError) return null;
+		throw err;
+	}
+}
+
+/** State shared by one recursive listing. */
+interface Traversal {
+	accessToken: string;
+	filter: PathFilter;
+	results: Map<string, GoogleDocInfo>;
+	/**
+	 * Folders already listed. A shortcut to an ancestor folder would otherwise
+	 * recurse forever, and one to a listed folder would list it twice.
+	 */
+	visitedFolders: Set<string>;
+	/** Shortcuts found in the drive itself; their targets are listed after the drive. */
+	shortcuts: Map<string, ShortcutRecord>;
+	onProgress?: () => Promise<void>;
+}
+
+function newTraversal(accessToken: string, filter: PathFilter, onProgress?: () => Promise<void>): Traversal {
+	return { accessToken, filter, results: new Map(), visitedFolders: new Set(), shortcuts: new Map(), onProgress };
+}
+
+/** Add a listed doc, or crawl a listed folder. */
+async function visitFile(
+	traversal: Traversal,
+	file: DriveFile,
+	driveId: string | undefined,
+	folderPath: string[],
+	shortcutId: string | undefined
+): Promise<void> {
+	if (isSynced(file.mimeType)) {
+		// A doc reached both directly and through a shortcut is listed once
+		if (traversal.results.has(file.id) || !traversal.filter.includesDoc(file.name, folderPath)) return;
+		traversal.results.set(file.id, {
+			id: file.id,
+			name: file.name,
+			mimeType: file.mimeType,
+			modifiedTime: file.modifiedTime ?? "",
+			parents: file.parents,
+			folderPath,
+			...(shortcutId && { shortcutId }),
+		});
+	} else if (file.mimeType === FOLDER_MIME && !traversal.visitedFolders.has(file.id)) {
+		const path = [...folderPath, file.name];
+		if (traversal.filter.excludesFolder(file.id, path)) return;
+		await listFilesRecursive(traversal, driveId, file.id, path, shortcutId);
+	}
+	// Ignore other file types per plan
+}
+
+/**
+ * List a folder's docs into `traversal.results`; without `driveId`, the folder
+ * may be in any drive. `shortcutId` is the shortcut in the drive the folder
+ * was reached through; shortcuts in the drive itself are only recorded, and
+ * shortcuts within their targets are followed right away.
+ */
+async function listFilesRecursive(
+	traversal: Traversal,
+	driveId: string | undefined,
 	folderId: string,
-	results: GoogleDocInfo[]
+	folderPath: string[],
+	shortcutId?: string
 ): Promise<void> {
+	traversal.visitedFolders.add(folderId);
 	let pageToken: string | undefined;
 
 	do {
-		const response = await listFiles(accessToken, {
+		const response = await listFiles(traversal.accessToken, {
 			driveId,
 			folderId,
 			pageToken,
 		});
 
-		for (const file of response.files) {
-			if (file.mimeType === GOOGLE_DOC_MIME) {
-				results.push({
-					id: file.id,
-					name: file.name,
-					modifiedTime: file.modifiedTime ?? "",
-					parents: file.parents,
-				});
-			} else if (file.mimeType === FOLDER_MIME) {
-				await listFilesRecursive(
-					accessToken,
-					driveId,
-					file.id,
-					results
-				);
+		for (const entry of response.files) {
+			if (entry.mimeType !== SHORTCUT_MIME) {
+				await visitFile(traversal, entry, driveId, folderPath, shortcutId);
+			} else if (entry.shortcutDetails && !shortcutId) {
+				traversal.shortcuts.set(entry.id, { id: entry.id, ...entry.shortcutDetails, folderPath });
+			} else if (entry.shortcutDetails) {
+				const target = await resolveShortcut(traversal.accessToken, entry.shortcutDetails);
+				// Shortcut targets may live in another drive
+				if (target) await visitFile(traversal, target, undefined, folderPath, shortcutId);
 			}
-			// Ignore other file types per plan
 		}
 
+		await traversal.onProgress?.();
 		pageToken = response.nextPageToken;
 	} while (pageToken);
 }
 
+/**
+ * List the targets of the recorded shortcuts, after the drive itself so that
+ * docs and folders inside the root are listed at their own path.
+ */
+async function listShortcutTargets(traversal: Traversal, shortcuts: Iterable<ShortcutRecord>): Promise<void> {
+	for (const shortcut of shortcuts) {
+		const target = await resolveShortcut(traversal.accessToken, shortcut);
+		if (target) await visitFile(traversal, target, undefined, shortcut.folderPath, shortcut.id);
+	}
+}
+
 /**
  * List all Google Docs in a shared drive, recursively traversing subdirectories.
- * Returns an array of document metadata. Other file types are ignored.
+ * Pass `rootFolderId` to list only one folder's subtree; folder paths are then
+ * relative to it. Returns the docs and the shortcuts found. Other file types,
+ * and docs and folders excluded by `filter`, are ignored.
  */
 export async function listAllGoogleDocs(
 	accessToken: string,
-	driveId: string
-): Promise<GoogleDocInfo[]> {
-	const results: GoogleDocInfo[] = [];
+	driveId: string,
+	options: ListingOptions = {}
+): Promise<GoogleDocListing> {
 	// For shared drives, the root folder ID equals the drive ID
-	await listFilesRecursive(accessToken, driveId, driveId, results);
-	return results;
+	const rootFolderId = options.rootFolderId ?? driveId;
+	const traversal = newTraversal(accessToken, options.filter ?? createPathFilter(), options.onProgress);
+	await listFilesRecursive(traversal, driveId, rootFolderId, []);
+	await listShortcutTargets(traversal, traversal.shortcuts.values());
+	return { docs: [...traversal.results.values()], shortcuts: [...traversal.shortcuts.values()] };
+}
+
+/** The shortcut state to store after a listing, for the next incremental one. */
+export function shortcutState(listing: GoogleDocListing): ShortcutState {
+	return {
+		shortcuts: listing.shortcuts,
+		docIds: listing.docs.filter((doc) => doc.shortcutId).map((doc) => doc.id),
+	};
+}
+
+/**
+ * Resolve a folder's path from the root folder by walking up its parents, or
+ * null when the folder is not inside the root folder or is excluded by
+ * `filter`. Folders the user cannot read, e.g. above a shortcut target in
+ * another drive, are outside the root. `cache` maps folder IDs to resolved
+ * paths and is shared across one listing.
+ */
+async function resolveFolderPath(
+	accessToken: string,
+	driveId: string,
+	rootFolderId: string,
+	filter: PathFilter,
+	folderId: string,
+	cache: Map<string, string[] | null>
+): Promise<string[] | null> {
+	if (folderId === rootFolderId) return [];
+	if (folderId === driveId) return null;
+	const cached = cache.get(folderId);
+	if (cached !== undefined) return cached;
+
+	let folder: DriveFile;
+	try {
+		folder = await getFile(accessToken, folderId);
+	} catch (err) {
+		if (!(err instanceof PermanentHttpError)) throw err;
+		cache.set(folderId, null);
+		return null;
+	}
+	const parentId = folder.parents?.[0];
+	const parentPath = parentId
+		? await resolveFolderPath(accessToken, driveId, rootFolderId, filter, parentId, cache)
+		: null;
+	let path = parentPath && [...parentPath, folder.name];
+	if (path && filter.excludesFolder(folderId, path)) path = null;
+	cache.set(folderId, path);
+	return path;
+}
+
+/**
+ * List Google Docs changed in a shared drive since `pageToken`, using the Drive
+ * Changes API instead of a full crawl. Docs that were trashed, deleted or moved
+ * out of the drive are returned separately as `removedIds`. Returns the token
+ * to pass on the next run.
+ *
+ * Renaming or moving a folder only reports the folder itself, so changed
+ * folders are crawled to pick up the new folder path of every doc inside.
+ * With `rootFolderId`, docs outside that folder are ignored, and docs moved out
+ * of it count as removed; so do docs that no longer pass `filter`.
+ *
+ * Edits to shortcut targets outside the drive never reach its changes feed,
+ * so the targets of every shortcut in `previous` (updated with the shortcuts
+ * that changed) are listed again on each run. Docs listed through a shortcut
+ * are never removed because of their own parent; they are removed when their
+ * shortcut is, or when it no longer leads to them.
+ */
+export async function listChangedGoogleDocs(
+	accessToken: string,
+	driveId: string,
+	pageToken: string,
+	options: ListingOptions & { previous?: ShortcutState } = {}
+): Promise<GoogleDocListing & { removedIds: string[]; newStartPageToken: string }> {
+	const rootFolderId = options.rootFolderId ?? driveId;
+	const filter = options.filter ?? createPathFilter();
+	// Keyed by file ID: a file changed several times is listed once, with its latest state
+	const docs = new Map<string, GoogleDocInfo>();
+	const removedIds = new Set<string>();
+	const changedFolderIds = new Set<string>();
+	const shortcuts = new Map((options.previous?.shortcuts ?? []).map((shortcut) => [shortcut.id, shortcut]));
+	const shortcutDocIds = new Set(options.previous?.docIds);
+	const folderPaths = new Map<string, string[] | null>();
+	const resolvePath = (folderId: string) =>
+		resolveFolderPath(accessToken, driveId, rootFolderId, filter, folderId, folderPaths);
+	let token = pageToken;
+
+	for (;;) {
+		const response = await listChanges(accessToken, { driveId, pageToken: token });
+
+		for (const change of response.changes) {
+			const file = change.file;
+			if (shortcuts.has(change.fileId) || file?.mimeType === SHORTCUT_MIME) {
+				shortcuts.delete(change.fileId);
+				if (change.removed || !file?.shortcutDetails || file.trashed) continue;
+				const folderPath = await resolvePath(file.parents?.[0] ?? driveId);
+				if (folderPath) shortcuts.set(file.id, { id: file.id, ...file.shortcutDetails, folderPath });
+				continue;
+			}
+			if (file?.mimeType === FOLDER_MIME) {
+				// Docs in a trashed folder are caught by the next full sync
+				if (!change.removed && !file.trashed) changedFolderIds.add(file.id);
+				continue;
+			}
+			if (file && !isSynced(file.mimeType)) {
+				continue;
+			}
+			// A removed change may carry no file, so its type is unknown; let the caller look it up
+			if (change.removed || !file || file.trashed) {
+				docs.delete(change.fileId);
+				removedIds.add(change.fileId);
+				continue;
+			}
+			const folderPath = await resolvePath(file.parents?.[0] ?? driveId);
+			if (!folderPath || !filter.includesDoc(file.name, folderPath)) {
+				// Still listed through its shortcut below, unless that no longer leads to it
+				if (shortcutDocIds.has(file.id)) continue;
+				docs.delete(file.id);
+				removedIds.add(file.id);
+				continue;
+			}
+			removedIds.delete(file.id);
+			docs.set(file.id, {
+				id: file.id,
+				name: file.name,
+				mimeType: file.mimeType,
+				modifiedTime: file.modifiedTime ?? "",
+				parents: file.parents,
+				folderPath,
+			});
+		}
+
+		await options.onProgress?.();
+		if (response.newStartPageToken) {
+			for (const folderId of changedFolderIds) {
+				const folderPath = await resolvePath(folderId);
+				// Folders moved out of the root or excluded leave their docs behind until the next full sync
+				if (!folderPath) continue;
+				const traversal = newTraversal(accessToken, filter, options.onProgress);
+				await listFilesRecursive(traversal, driveId, folderId, folderPath);
+				for (const doc of traversal.results.values()) {
+					if (!docs.has(doc.id) && !removedIds.has(doc.id)) docs.set(doc.id, doc);
+				}
+				for (const shortcut of traversal.shortcuts.values()) shortcuts.set(shortcut.id, shortcut);
+			}
+
+			const targets = newTraversal(accessToken, filter, options.onProgress);
+			await listShortcutTargets(targets, shortcuts.values());
+			for (const doc of targets.results.values()) {
+				if (docs.has(doc.id) || removedIds.has(doc.id)) continue;
+				// Inside the root itself, the doc's own changes keep it up to date
+				const ownPath = await resolvePath(doc.parents?.[0] ?? driveId);
+				if (ownPath && filter.includesDoc(doc.name, ownPath)) continue;
+				docs.set(doc.id, doc);
+			}
+			for (const docId of shortcutDocIds) {
+				if (!docs.has(docId) && !targets.results.has(docId)) removedIds.add(docId);
+			}
+			return {
+				docs: [...docs.values()],
+				removedIds: [...removedIds],
+				shortcuts: [...shortcuts.values()],
+				newStartPageToken: response.newStartPageToken,
+			};
+		}
+		if (!response.nextPageToken) {
+			throw new Error("Drive listChanges returned neither nextPageToken nor newStartPageToken");
+		}
+		token = response.nextPageToken;
+	}
 }
@@ -3,9 +3,33 @@
  * Uses JWT-based auth to obtain access tokens, then calls Drive API.
  */
 
+import { createApiClient } from "./http";
+
 const DRIVE_SCOPE = "https://www.googleapis.com/auth/drive.readonly";
+/**
+ * Adds drive.file, to create (and delete) the temporary Google Docs that Word
+ * files are converted through. Only requested for conversions, so domain-wide
+ * delegation needs drive.file only when .docx files are synced.
+ */
+export const DRIVE_CONVERSION_SCOPE = `${DRIVE_SCOPE} https://www.googleapis.com/auth/drive.file`;
 const TOKEN_URL = "https://oauth2.googleapis.com/token";
 const DRIVE_API_BASE = "https://www.googleapis.com/drive/v3";
+const SHEETS_API_BASE = "https://sheets.googleapis.com/v4";
+const SHEETS_EXPORT_BASE = "https://docs.google.com/spreadsheets/d";
+const SLIDES_API_BASE = "https://slides.googleapis.com/v1";
+
+export const GOOGLE_DOC_MIME = "application/vnd.google-apps.document";
+export const GOOGLE_SHEET_MIME = "application/vnd.google-apps.spreadsheet";
+export const GOOGLE_SLIDES_MIME = "application/vnd.google-apps.presentation";
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/** Shared by all Drive and OAuth requests; well below Drive's per-user quota. */
+const driveApi = createApiClient({
+	requestsPerSecond: 10,
+	// Google reports quota errors as 403 with a rateLimitExceeded reason
+	isRetryable: (status, body) =>
+		status === 429 || status >= 500 || (status === 403 && /"(rateLimitExceeded|userRateLimitExceeded)"/.test(body)),
+});
 
 /** List shared drives the impersonated user can access. Use to verify correct drive ID. */
 export async function listDrives(
@@ -20,13 +44,13 @@ export async function listDrives(
 		params.set("useDomainAdminAccess", "true");
 	}
 	const url = `${DRIVE_API_BASE}/drives?${params.toString()}`;
-	const response = await fetch(url, {
+	const response = await driveApi.fetch(url, {
 		headers: { Authorization: `Bearer ${accessToken}` },
 	});
 
 	if (!response.ok) {
 		const err = await response.text();
-		throw new Error(`drives.list failed: ${response.status} ${err}`);
+		throw driveApi.error("drives.list failed", response, err);
 	}
 
 	const data = (await response.json()) as {
@@ -46,7 +70,7 @@ export async function getDriveMetadata(
 		? "?useDomainAdminAccess=true"
 		: "";
 	const url = `${DRIVE_API_BASE}/drives/${driveId}${params}`;
-	const response = await fetch(url, {
+	const response = await driveApi.fetch(url, {
 		headers: { Authorization: `Bearer ${accessToken}` },
 	});
 
@@ -60,7 +84,7 @@ export async function getDriveMetadata(
 		}
 		const detail = parsed.error?.message ?? err;
 		console.error("[Drive API] drives.get failed:", { status: response.status, url, body: err });
-		throw new Error(`Drive not found or no access: ${response.status} ${detail}`);
+		throw driveApi.error("Drive not found or no access", response, detail);
 	}
 
 	const data = (await response.json()) as { id: string; name: string };
@@ -85,6 +109,8 @@ export interface DriveFile {
 	mimeType: string;
 	modifiedTime: string;
 	parents?: string[];
+	/** Set on shortcuts: the file or folder they point to. */
+	shortcutDetails?: { targetId: string; targetMimeType: string };
 }
 
 export interface DriveFileListResponse {
@@ -140,15 +166,17 @@ async function signJwt(
 	return `${message}.${signatureB64}`;
 }
 
+/** Get an access token for the impersonated user; read-only unless `scope` says otherwise. */
 export async function getAccessToken(
 	credentials: ServiceAccountCredentials,
-	impersonateUser: string
+	impersonateUser: string,
+	scope: string = DRIVE_SCOPE
 ): Promise<string> {
 	const now = Math.floor(Date.now() / 1000);
 	const payload = {
 		iss: credentials.client_email,
 		sub: impersonateUser,
-		scope: DRIVE_SCOPE,
+		scope,
 		aud: TOKEN_URL,
 		iat: now,
 		exp: now + 3600,
@@ -160,18 +188,22 @@ export async function getAccessToken(
 		payload
 	);
 
-	const response = await fetch(TOKEN_URL, {
-		method: "POST",
-		headers: { "Content-Type": "application/x-www-form-urlencoded" },
-		body: new URLSearchParams({
-			grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
-			assertion: jwt,
-		}).toString(),
-	});
+	const response = await driveApi.fetch(
+		TOKEN_URL,
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: new URLSearchParams({
+				grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+				assertion: jwt,
+			}).toString(),
+		},
+		{ idempotent: true }
+	);
 
 	if (!response.ok) {
 		const err = await response.text();
-		throw new Error(`Failed to get access token: ${response.status} ${err}`);
+		throw driveApi.error("Failed to get access token", response, err);
 	}
 
 	const data = (await response.json()) as { access_token: string };
@@ -179,7 +211,8 @@ export async function getAccessToken(
 }
 
 export interface ListFilesParams {
-	driveId: string;
+	/** Omit to list a folder in any drive the user can read, e.g. a shortcut's target. */
+	driveId?: string;
 	folderId?: string;
 	pageToken?: string;
 }
@@ -189,51 +222,314 @@ export async function listFiles(
 	params: ListFilesParams
 ): Promise<DriveFileListResponse> {
 	const searchParams = new URLSearchParams({
-		corpora: "drive",
-		driveId: params.driveId,
+		corpora: params.driveId ? "drive" : "allDrives",
 		includeItemsFromAllDrives: "true",
 		supportsAllDrives: "true",
-		q: params.folderId
-			? `'${params.folderId}' in parents and trashed = false`
-			: `'${params.driveId}' in parents and trashed = false`,
-		fields: "nextPageToken,files(id,name,mimeType,modifiedTime,parents)",
+		q: `'${params.folderId ?? params.driveId}' in parents and trashed = false`,
+		fields: "nextPageToken,files(id,name,mimeType,modifiedTime,parents,shortcutDetails(targetId,targetMimeType))",
 	});
 
+	if (params.driveId) {
+		searchParams.set("driveId", params.driveId);
+	}
+
 	if (params.pageToken) {
 		searchParams.set("pageToken", params.pageToken);
 	}
 
 	const url = `${DRIVE_API_BASE}/files?${searchParams.toString()}`;
-	const response = await fetch(url, {
+	const response = await driveApi.fetch(url, {
 		headers: { Authorization: `Bearer ${accessToken}` },
 	});
 
 	if (!response.ok) {
 		const err = await response.text();
 		console.error("[Drive API] listFiles failed:", { status: response.status, url, body: err });
-		throw new Error(`Drive listFiles failed: ${response.status} ${err}`);
+		throw driveApi.error("Drive listFiles failed", response, err);
 	}
 
 	return (await response.json()) as DriveFileListResponse;
 }
 
+export interface DriveChange {
+	fileId: string;
+	removed?: boolean;
+	changeType?: string;
+	file?: DriveFile & { trashed?: boolean };
+}
+
+export interface DriveChangeListResponse {
+	changes: DriveChange[];
+	nextPageToken?: string;
+	newStartPageToken?: string;
+}
+
+/** Get the token marking "now" in a shared drive's change log. */
+export async function getStartPageToken(
+	accessToken: string,
+	driveId: string
+): Promise<string> {
+	const searchParams = new URLSearchParams({
+		driveId,
+		supportsAllDrives: "true",
+	});
+	const url = `${DRIVE_API_BASE}/changes/startPageToken?${searchParams.toString()}`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error("Drive getStartPageToken failed", response, err);
+	}
+
+	const data = (await response.json()) as { startPageToken: string };
+	return data.startPageToken;
+}
+
+/** List one page of changes in a shared drive since `pageToken`. */
+export async function listChanges(
+	accessToken: string,
+	params: { driveId: string; pageToken: string }
+): Promise<DriveChangeListResponse> {
+	const searchParams = new URLSearchParams({
+		driveId: params.driveId,
+		pageToken: params.pageToken,
+		includeItemsFromAllDrives: "true",
+		supportsAllDrives: "true",
+		includeRemoved: "true",
+		pageSize: "1000",
+		fields:
+			"nextPageToken,newStartPageToken,changes(fileId,removed,changeType,file(id,name,mimeType,modifiedTime,parents,trashed,shortcutDetails(targetId,targetMimeType)))",
+	});
+
+	const url = `${DRIVE_API_BASE}/changes?${searchParams.toString()}`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		console.error("[Drive API] listChanges failed:", { status: response.status, url, body: err });
+		throw driveApi.error("Drive listChanges failed", response, err);
+	}
+
+	return (await response.json()) as DriveChangeListResponse;
+}
+
+/** Get a single file's metadata, e.g. to look up a folder's name and parent. */
+export async function getFile(accessToken: string, fileId: string): Promise<DriveFile> {
+	const searchParams = new URLSearchParams({
+		supportsAllDrives: "true",
+		fields: "id,name,mimeType,modifiedTime,parents",
+	});
+	const url = `${DRIVE_API_BASE}/files/${fileId}?${searchParams.toString()}`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Drive getFile failed for ${fileId}`, response, err);
+	}
+
+	return (await response.json()) as DriveFile;
+}
+
 export async function exportAsMarkdown(
 	accessToken: string,
 	fileId: string
 ): Promise<string> {
 	const url = `${DRIVE_API_BASE}/files/${fileId}/export?mimeType=text%2Fmarkdown`;
-	const response = await fetch(url, {
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Drive export failed for ${fileId}`, response, err);
+	}
+
+	return response.text();
+}
+
+/** Download an uploaded file's content as text, e.g. a .md or .txt file. */
+export async function downloadAsText(accessToken: string, fileId: string): Promise<string> {
+	const url = `${DRIVE_API_BASE}/files/${fileId}?alt=media&supportsAllDrives=true`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Drive download failed for ${fileId}`, response, err);
+	}
+
+	return response.text();
+}
+
+/**
+ * Convert an uploaded Office file to markdown. Drive only exports native
+ * files, so the file is copied as a Google Doc into the impersonated user's
+ * My Drive (outside the synced drive), exported, and the copy deleted. The
+ * copy needs a DRIVE_CONVERSION_SCOPE token.
+ */
+export async function exportConvertedAsMarkdown(auth: DriveAuth, fileId: string): Promise<string> {
+	const accessToken = await auth.conversionAccessToken();
+	const url = `${DRIVE_API_BASE}/files/${fileId}/copy?supportsAllDrives=true&fields=id`;
+	const response = await driveApi.fetch(url, {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${accessToken}`,
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify({ mimeType: GOOGLE_DOC_MIME, parents: ["root"] }),
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Drive conversion failed for ${fileId}`, response, err);
+	}
+
+	const copy = (await response.json()) as { id: string };
+	try {
+		return await exportAsMarkdown(accessToken, copy.id);
+	} finally {
+		await deleteFile(accessToken, copy.id);
+	}
+}
+
+async function deleteFile(accessToken: string, fileId: string): Promise<void> {
+	const url = `${DRIVE_API_BASE}/files/${fileId}?supportsAllDrives=true`;
+	const response = await driveApi.fetch(url, {
+		method: "DELETE",
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok && response.status !== 404) {
+		const err = await response.text();
+		throw driveApi.error(`Drive delete failed for ${fileId}`, response, err);
+	}
+}
+
+/** Drive access as the impersonated user. */
+export interface DriveAuth {
+	/** A read-only token, enough for everything but conversions. */
+	accessToken: string;
+	/** A DRIVE_CONVERSION_SCOPE token, requested when a file needs converting. */
+	conversionAccessToken(): Promise<string>;
+}
+
+/** Exports a Drive file's content as markdown. */
+export type MarkdownExporter = (auth: DriveAuth, fileId: string) => Promise<string>;
+
+function readOnly(exporter: (accessToken: string, fileId: string) => Promise<string>): MarkdownExporter {
+	return (auth, fileId) => exporter(auth.accessToken, fileId);
+}
+
+/**
+ * Markdown exporters by MIME type. Files of these types are synced through
+ * markdownToNotionBlocks like native Docs; register an exporter to sync
+ * another type.
+ */
+export const markdownExporters = new Map<string, MarkdownExporter>([
+	[GOOGLE_DOC_MIME, readOnly(exportAsMarkdown)],
+	["text/markdown", readOnly(downloadAsText)],
+	["text/x-markdown", readOnly(downloadAsText)],
+	["text/plain", readOnly(downloadAsText)],
+	[DOCX_MIME, exportConvertedAsMarkdown],
+]);
+
+export interface SheetTab {
+	/** The tab's gid. */
+	sheetId: number;
+	title: string;
+}
+
+/** List a spreadsheet's tabs (sheets), in order. */
+export async function listSheetTabs(accessToken: string, spreadsheetId: string): Promise<SheetTab[]> {
+	const url = `${SHEETS_API_BASE}/spreadsheets/${spreadsheetId}?fields=sheets.properties(sheetId,title)`;
+	const response = await driveApi.fetch(url, {
 		headers: { Authorization: `Bearer ${accessToken}` },
 	});
 
 	if (!response.ok) {
 		const err = await response.text();
-		throw new Error(`Drive export failed for ${fileId}: ${response.status} ${err}`);
+		throw driveApi.error(`Sheets get failed for ${spreadsheetId}`, response, err);
+	}
+
+	const data = (await response.json()) as { sheets?: Array<{ properties: SheetTab }> };
+	return (data.sheets ?? []).map((sheet) => sheet.properties);
+}
+
+/**
+ * Export one tab of a spreadsheet as CSV. Drive's files.export only returns
+ * the first tab, so this uses the spreadsheet export URL, which takes a gid.
+ */
+export async function exportSheetTabAsCsv(
+	accessToken: string,
+	spreadsheetId: string,
+	sheetId: number
+): Promise<string> {
+	const url = `${SHEETS_EXPORT_BASE}/${spreadsheetId}/export?format=csv&gid=${sheetId}`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Sheet export failed for ${spreadsheetId} tab ${sheetId}`, response, err);
 	}
 
 	return response.text();
 }
 
+/** The parts of a Slides API text body this sync reads. */
+export interface SlidesTextContent {
+	textElements?: Array<{
+		/** Starts a paragraph; bullet is set for list items. */
+		paragraphMarker?: { bullet?: { nestingLevel?: number } };
+		textRun?: { content?: string };
+	}>;
+}
+
+export interface SlidesPageElement {
+	objectId: string;
+	shape?: { placeholder?: { type?: string }; text?: SlidesTextContent };
+	table?: { tableRows?: Array<{ tableCells?: Array<{ text?: SlidesTextContent }> }> };
+	elementGroup?: { children?: SlidesPageElement[] };
+}
+
+export interface SlidesPage {
+	objectId: string;
+	pageElements?: SlidesPageElement[];
+	slideProperties?: { notesPage?: SlidesPage };
+	notesProperties?: { speakerNotesObjectId?: string };
+}
+
+export interface Presentation {
+	presentationId: string;
+	slides?: SlidesPage[];
+}
+
+/** Get a presentation's slides with their text and speaker notes. */
+export async function getPresentation(accessToken: string, presentationId: string): Promise<Presentation> {
+	const searchParams = new URLSearchParams({
+		fields: "presentationId,slides(objectId,pageElements,slideProperties/notesPage(objectId,notesProperties,pageElements))",
+	});
+	const url = `${SLIDES_API_BASE}/presentations/${presentationId}?${searchParams.toString()}`;
+	const response = await driveApi.fetch(url, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw driveApi.error(`Slides get failed for ${presentationId}`, response, err);
+	}
+
+	return (await response.json()) as Presentation;
+}
+
 export function parseServiceAccountJson(json: string): ServiceAccountCredentials {
 	const parsed = JSON.parse(json) as {
 		client_email?: string;
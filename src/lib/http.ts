@@ -0,0 +1,181 @@
+/**
+ * Shared request layer for the Notion and Google APIs: a token-bucket rate
+ * limiter per API, retries with exponential backoff and jitter that honour
+ * Retry-After, and typed errors that tell retryable failures from permanent ones.
+ */
+
+export class HttpError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly body: string
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+/** A failure that may go away on its own: rate limits, server and network errors. */
+export class RetryableHttpError extends HttpError {
+	constructor(
+		message: string,
+		status: number,
+		body: string,
+		/** How long the server asked us to wait, when it said. */
+		readonly retryAfterMs?: number
+	) {
+		super(message, status, body);
+		this.name = "RetryableHttpError";
+	}
+}
+
+/** A failure retrying will not fix, e.g. a validation, permission or not-found error. */
+export class PermanentHttpError extends HttpError {
+	constructor(message: string, status: number, body: string) {
+		super(message, status, body);
+		this.name = "PermanentHttpError";
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Allows `ratePerSecond` requests per second on average, with bursts of up to `capacity`. */
+export class TokenBucket {
+	private tokens: number;
+	private updatedAt = Date.now();
+
+	constructor(
+		private readonly ratePerSecond: number,
+		private readonly capacity: number = ratePerSecond
+	) {
+		this.tokens = capacity;
+	}
+
+	/** Wait until a request may be sent. */
+	async take(): Promise<void> {
+		for (;;) {
+			const now = Date.now();
+			this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+			this.updatedAt = now;
+			if (this.tokens >= 1) {
+				this.tokens -= 1;
+				return;
+			}
+			await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+		}
+	}
+}
+
+/** Parse a Retry-After header, given either in seconds or as an HTTP date. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export interface ApiClientOptions {
+	requestsPerSecond: number;
+	burst?: number;
+	/** Retries after the first attempt. */
+	maxRetries?: number;
+	baseBackoffMs?: number;
+	maxBackoffMs?: number;
+	/**
+	 * Longest Retry-After to wait out in place. A longer one ends the retries,
+	 * leaving the wait to the caller (e.g. a delayed queue retry).
+	 */
+	maxRetryAfterMs?: number;
+	/** Whether a failed response is worth retrying. */
+	isRetryable(status: number, body: string): boolean;
+	/**
+	 * Whether a failed response to a request that is not idempotent is worth
+	 * retrying in place: only statuses that mean the request was not applied.
+	 * Defaults to 429 only.
+	 */
+	isRetryableWrite?(status: number, body: string): boolean;
+}
+
+export interface RequestOptions {
+	/**
+	 * Whether sending the request twice is harmless. Defaults to true for GET,
+	 * HEAD, OPTIONS, PUT and DELETE. Other requests are not retried after a
+	 * network error or a status outside isRetryableWrite, since the first
+	 * attempt may have been applied.
+	 */
+	idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export interface ApiClient {
+	/**
+	 * Rate-limited fetch that retries retryable failures, see RequestOptions
+	 * for requests that are not idempotent. Resolves with the last response,
+	 * successful or not; network errors that outlast the retries reject with
+	 * a RetryableHttpError.
+	 */
+	fetch(input: string | URL, init?: RequestInit, request?: RequestOptions): Promise<Response>;
+	/** The error to throw for a failed response, typed by whether it is retryable. */
+	error(label: string, response: Response, body: string): HttpError;
+}
+
+export function createApiClient(options: ApiClientOptions): ApiClient {
+	const bucket = new TokenBucket(options.requestsPerSecond, options.burst);
+	const maxRetries = options.maxRetries ?? 4;
+	const baseBackoffMs = options.baseBackoffMs ?? 500;
+	const maxBackoffMs = options.maxBackoffMs ?? 30_000;
+	const maxRetryAfterMs = options.maxRetryAfterMs ?? 60_000;
+	const isRetryableWrite = options.isRetryableWrite ?? ((status: number) => status === 429);
+
+	// Full jitter: spreads out retries from concurrent invocations
+	const backoff = (attempt: number) => Math.random() * Math.min(maxBackoffMs, baseBackoffMs * 2 ** attempt);
+
+	return {
+		async fetch(input, init, request = {}) {
+			const idempotent = request.idempotent ?? IDEMPOTENT_METHODS.has((init?.method ?? "GET").toUpperCase());
+			const isRetryable = idempotent ? options.isRetryable : isRetryableWrite;
+
+			for (let attempt = 0; ; attempt++) {
+				await bucket.take();
+
+				let response: Response;
+				try {
+					response = await fetch(input, init);
+				} catch (err) {
+					if (!idempotent || attempt >= maxRetries) {
+						const message = err instanceof Error ? err.message : String(err);
+						throw new RetryableHttpError(`Request to ${String(input)} failed: ${message}`, 0, "");
+					}
+					await sleep(backoff(attempt));
+					continue;
+				}
+
+				if (response.ok || attempt >= maxRetries) return response;
+				const body = await response.clone().text();
+				if (!isRetryable(response.status, body)) return response;
+				const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+				if (retryAfter !== undefined && retryAfter > maxRetryAfterMs) return response;
+
+				await response.body?.cancel();
+				await sleep(retryAfter ?? backoff(attempt));
+			}
+		},
+
+		error(label, response, body) {
+			const message = `${label}: ${response.status} ${body}`;
+			if (options.isRetryable(response.status, body)) {
+				return new RetryableHttpError(
+					message,
+					response.status,
+					body,
+					parseRetryAfter(response.headers.get("Retry-After"))
+				);
+			}
+			return new PermanentHttpError(message, response.status, body);
+		},
+	};
+}
@@ -3,66 +3,254 @@
  */
 
 import { fromMarkdown } from "mdast-util-from-markdown";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import { mathFromMarkdown } from "mdast-util-math";
+import { gfm } from "micromark-extension-gfm";
+import { math } from "micromark-extension-math";
 import type {
+	Blockquote,
 	BlockContent,
+	FootnoteDefinition,
 	List,
+	Heading,
 	ListItem,
+	Nodes,
 	PhrasingContent,
 	Root,
+	RootContent,
 	Table,
 } from "mdast";
 
 const NOTION_VERSION = "2022-06-28";
+/**
+ * Bump whenever the same markdown converts to different blocks, so pages
+ * synced by an older converter are re-rendered even if their doc is unchanged.
+ */
+export const CONVERTER_VERSION = 3;
+/** Notion rejects text.content longer than this. */
+export const MAX_TEXT_LENGTH = 2000;
+/** Notion rejects rich_text arrays with more items than this. */
+const MAX_RICH_TEXT_ITEMS = 100;
 
 export type NotionBlock =
 	| { type: "paragraph"; paragraph: { rich_text: NotionRichText[] } }
 	| {
 			type: "heading_1";
-			heading_1: { rich_text: NotionRichText[] };
+			heading_1: { rich_text: NotionRichText[]; is_toggleable?: boolean; children?: NotionBlock[] };
 	  }
 	| {
 			type: "heading_2";
-			heading_2: { rich_text: NotionRichText[] };
+			heading_2: { rich_text: NotionRichText[]; is_toggleable?: boolean; children?: NotionBlock[] };
 	  }
 	| {
 			type: "heading_3";
-			heading_3: { rich_text: NotionRichText[] };
+			heading_3: { rich_text: NotionRichText[]; is_toggleable?: boolean; children?: NotionBlock[] };
 	  }
 	| {
 			type: "bulleted_list_item";
-			bulleted_list_item: { rich_text: NotionRichText[] };
+			bulleted_list_item: { rich_text: NotionRichText[]; children?: NotionBlock[] };
 	  }
 	| {
 			type: "numbered_list_item";
-			numbered_list_item: { rich_text: NotionRichText[] };
+			numbered_list_item: { rich_text: NotionRichText[]; children?: NotionBlock[] };
+	  }
+	| {
+			type: "toggle";
+			toggle: { rich_text: NotionRichText[]; children?: NotionBlock[] };
+	  }
+	| {
+			type: "to_do";
+			to_do: { rich_text: NotionRichText[]; checked: boolean; children?: NotionBlock[] };
 	  }
 	| {
 			type: "quote";
-			quote: { rich_text: NotionRichText[] };
+			quote: { rich_text: NotionRichText[]; children?: NotionBlock[] };
+	  }
+	| {
+			type: "callout";
+			callout: {
+				rich_text: NotionRichText[];
+				icon: { type: "emoji"; emoji: string };
+				color: string;
+				children?: NotionBlock[];
+			};
 	  }
 	| {
 			type: "code";
 			code: {
 				rich_text: NotionRichText[];
-				language: string;
+				language: NotionCodeLanguage;
+				caption?: NotionRichText[];
 			};
 	  }
-	| { type: "divider"; divider: Record<string, never> };
-
-export interface NotionRichText {
-	type: "text";
-	text: { content: string; link: { url: string } | null };
-	annotations?: {
-		bold?: boolean;
-		italic?: boolean;
-		strikethrough?: boolean;
-		underline?: boolean;
-		code?: boolean;
-		color?: string;
-	};
+	| { type: "divider"; divider: Record<string, never> }
+	| { type: "equation"; equation: { expression: string } }
+	| { type: "image"; image: NotionImage }
+	| {
+			type: "table";
+			table: {
+				table_width: number;
+				has_column_header: boolean;
+				has_row_header: boolean;
+				children: NotionBlock[];
+			};
+	  }
+	| {
+			type: "table_row";
+			table_row: { cells: NotionRichText[][] };
+	  };
+
+/** Languages accepted by Notion's code block; anything else is rejected with a 400. */
+const NOTION_CODE_LANGUAGES = [
+	"abap", "arduino", "bash", "basic", "c", "clojure", "coffeescript", "c++", "c#", "css",
+	"dart", "diff", "docker", "elixir", "elm", "erlang", "flow", "fortran", "f#", "gherkin",
+	"glsl", "go", "graphql", "groovy", "haskell", "html", "java", "javascript", "json", "julia",
+	"kotlin", "latex", "less", "lisp", "livescript", "lua", "makefile", "markdown", "markup", "matlab",
+	"mermaid", "nix", "objective-c", "ocaml", "pascal", "perl", "php", "plain text", "powershell", "prolog",
+	"protobuf", "python", "r", "reason", "ruby", "rust", "sass", "scala", "scheme", "scss",
+	"shell", "sql", "swift", "typescript", "vb.net", "verilog", "vhdl", "visual basic", "webassembly", "xml",
+	"yaml", "java/c/c++/c#",
+] as const;
+
+export type NotionCodeLanguage = (typeof NOTION_CODE_LANGUAGES)[number];
+
+/** Common code fence aliases mapped to Notion's language names. */
+const CODE_LANGUAGE_ALIASES: Record<string, NotionCodeLanguage> = {
+	js: "javascript",
+	jsx: "javascript",
+	mjs: "javascript",
+	cjs: "javascript",
+	node: "javascript",
+	ts: "typescript",
+	tsx: "typescript",
+	sh: "shell",
+	zsh: "shell",
+	console: "shell",
+	"shell-session": "shell",
+	ps: "powershell",
+	ps1: "powershell",
+	pwsh: "powershell",
+	yml: "yaml",
+	py: "python",
+	python3: "python",
+	rb: "ruby",
+	rs: "rust",
+	golang: "go",
+	kt: "kotlin",
+	kts: "kotlin",
+	cpp: "c++",
+	cc: "c++",
+	cxx: "c++",
+	hpp: "c++",
+	h: "c",
+	cs: "c#",
+	csharp: "c#",
+	fs: "f#",
+	fsharp: "f#",
+	objc: "objective-c",
+	"objective-c++": "objective-c",
+	dockerfile: "docker",
+	make: "makefile",
+	mk: "makefile",
+	md: "markdown",
+	tex: "latex",
+	htm: "html",
+	svg: "xml",
+	gql: "graphql",
+	proto: "protobuf",
+	hs: "haskell",
+	ex: "elixir",
+	exs: "elixir",
+	erl: "erlang",
+	clj: "clojure",
+	coffee: "coffeescript",
+	pl: "perl",
+	vb: "visual basic",
+	vbnet: "vb.net",
+	wasm: "webassembly",
+	wat: "webassembly",
+	patch: "diff",
+	text: "plain text",
+	txt: "plain text",
+	plaintext: "plain text",
+	plain: "plain text",
+	postgres: "sql",
+	postgresql: "sql",
+	mysql: "sql",
+	sqlite: "sql",
+	jsonc: "json",
+	json5: "json",
+};
+
+/** Map a code fence language to Notion's enum, falling back to plain text. */
+function normalizeCodeLanguage(lang: string | null | undefined): NotionCodeLanguage {
+	const key = lang?.trim().toLowerCase();
+	if (!key) return "plain text";
+	const alias = CODE_LANGUAGE_ALIASES[key];
+	if (alias) return alias;
+	return (NOTION_CODE_LANGUAGES as readonly string[]).includes(key) ? (key as NotionCodeLanguage) : "plain text";
+}
+
+/**
+ * Caption for a code block from the fence metadata, e.g. ```js title="app.js"```.
+ * A `title`/`caption` attribute is used when present, otherwise the raw metadata.
+ */
+function codeMetaToCaption(meta: string | null | undefined): NotionRichText[] | undefined {
+	const trimmed = meta?.trim();
+	if (!trimmed) return undefined;
+	const attribute = /\b(?:title|caption)=(?:"([^"]*)"|'([^']*)'|(\S+))/.exec(trimmed);
+	const caption = attribute ? (attribute[1] ?? attribute[2] ?? attribute[3]) : trimmed;
+	return caption ? [plainText(caption)] : undefined;
 }
 
-function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
+export type NotionImage = (
+	| { type: "external"; external: { url: string } }
+	| { type: "file_upload"; file_upload: { id: string } }
+) & { caption?: NotionRichText[] };
+
+export interface MarkdownToBlocksOptions {
+	/**
+	 * How to render H4–H6, which Notion has no heading type for: a bold
+	 * paragraph (default), or a toggle with the section content nested inside.
+	 */
+	deepHeadings?: "bold_paragraph" | "toggle";
+	/** Render H1/H2 as toggleable headings with their section content nested under them. */
+	toggleHeadings?: boolean;
+}
+
+/** State shared across a single markdown conversion. */
+interface ConversionContext {
+	options: MarkdownToBlocksOptions;
+	/** Link/image reference definitions keyed by normalized identifier. */
+	definitions: Map<string, string>;
+	/** Footnote definitions keyed by normalized identifier. */
+	footnoteDefinitions: Map<string, FootnoteDefinition>;
+	/** Footnote identifiers in order of first reference; position + 1 is the footnote number. */
+	footnoteOrder: string[];
+}
+
+export interface NotionAnnotations {
+	bold?: boolean;
+	italic?: boolean;
+	strikethrough?: boolean;
+	underline?: boolean;
+	code?: boolean;
+	color?: string;
+}
+
+export type NotionRichText =
+	| {
+			type: "text";
+			text: { content: string; link: { url: string } | null };
+			annotations?: NotionAnnotations;
+	  }
+	| {
+			type: "equation";
+			equation: { expression: string };
+			annotations?: NotionAnnotations;
+	  };
+
+function phrasingToRichText(nodes: PhrasingContent[], ctx: ConversionContext): NotionRichText[] {
 	const result: NotionRichText[] = [];
 
 	for (const node of nodes) {
@@ -80,7 +268,7 @@ function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
 				},
 			});
 		} else if (node.type === "strong") {
-			const inner = phrasingToRichText(node.children);
+			const inner = phrasingToRichText(node.children, ctx);
 			for (const r of inner) {
 				result.push({
 					...r,
@@ -91,7 +279,7 @@ function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
 				});
 			}
 		} else if (node.type === "emphasis") {
-			const inner = phrasingToRichText(node.children);
+			const inner = phrasingToRichText(node.children, ctx);
 			for (const r of inner) {
 				result.push({
 					...r,
@@ -102,7 +290,7 @@ function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
 				});
 			}
 		} else if (node.type === "delete") {
-			const inner = phrasingToRichText(node.children);
+			const inner = phrasingToRichText(node.children, ctx);
 			for (const r of inner) {
 				result.push({
 					...r,
@@ -126,12 +314,13 @@ function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
 				},
 			});
 		} else if (node.type === "link") {
-			const inner = phrasingToRichText(node.children);
+			const inner = phrasingToRichText(node.children, ctx);
 			for (const r of inner) {
-				result.push({
-					...r,
-					text: { content: r.text.content, link: { url: node.url } },
-				});
+				result.push(
+					r.type === "text"
+						? { ...r, text: { content: r.text.content, link: { url: node.url } } }
+						: r
+				);
 			}
 		} else if (node.type === "break") {
 			result.push({
@@ -146,13 +335,94 @@ function phrasingToRichText(nodes: PhrasingContent[]): NotionRichText[] {
 					color: "default",
 				},
 			});
+		} else if (node.type === "inlineMath") {
+			result.push({
+				type: "equation",
+				equation: { expression: node.value },
+				annotations: {
+					bold: false,
+					italic: false,
+					strikethrough: false,
+					underline: false,
+					code: false,
+					color: "default",
+				},
+			});
+		} else if (node.type === "footnoteReference") {
+			result.push(plainText(toSuperscript(footnoteNumber(node.identifier, ctx))));
 		}
-		// Skip image, imageReference, linkReference, footnoteReference, html
+		// Skip image, imageReference, linkReference, html
 	}
 
 	return result;
 }
 
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+const FOOTNOTES_HEADING = "Footnotes";
+
+function toSuperscript(n: number): string {
+	return [...String(n)].map((d) => SUPERSCRIPT_DIGITS[Number(d)]).join("");
+}
+
+/** The footnote number a rich text item's content is the marker of, or null if it is not a marker. */
+export function footnoteMarkerNumber(content: string): number | null {
+	if (!/^[⁰¹²³⁴⁵⁶⁷⁸⁹]+$/.test(content)) return null;
+	return Number([...content].map((digit) => SUPERSCRIPT_DIGITS.indexOf(digit)).join(""));
+}
+
+/** Number footnotes in order of first reference, as GFM renderers do. */
+function footnoteNumber(identifier: string, ctx: ConversionContext): number {
+	const index = ctx.footnoteOrder.indexOf(identifier);
+	if (index !== -1) return index + 1;
+	ctx.footnoteOrder.push(identifier);
+	return ctx.footnoteOrder.length;
+}
+
+/**
+ * Build the "Footnotes" section appended to the end of the page: a divider,
+ * a heading and a numbered list whose numbers match the superscript markers.
+ * Notion block IDs only exist once blocks are created, so the markers are
+ * linked to their footnote after upload, see footnotesStart. Unreferenced
+ * definitions are listed last.
+ */
+function footnotesSection(ctx: ConversionContext): NotionBlock[] {
+	for (const identifier of ctx.footnoteDefinitions.keys()) {
+		footnoteNumber(identifier, ctx);
+	}
+	if (ctx.footnoteOrder.length === 0) return [];
+
+	const items: NotionBlock[] = [];
+	// Definitions can reference further footnotes, which extends footnoteOrder
+	for (let i = 0; i < ctx.footnoteOrder.length; i++) {
+		const definition = ctx.footnoteDefinitions.get(ctx.footnoteOrder[i]);
+		const item: ListItem = { type: "listItem", spread: false, children: definition?.children ?? [] };
+		items.push(listItemToBlock(item, true, ctx));
+	}
+
+	return [
+		{ type: "divider", divider: {} },
+		{ type: "heading_3", heading_3: { rich_text: [plainText(FOOTNOTES_HEADING)] } },
+		...items,
+	];
+}
+
+/**
+ * Index of the first footnote in converted blocks, i.e. the first numbered
+ * list item after the trailing "Footnotes" divider and heading; -1 when the
+ * blocks end without a footnotes section.
+ */
+export function footnotesStart(blocks: NotionBlock[]): number {
+	let start = blocks.length;
+	while (start > 0 && blocks[start - 1].type === "numbered_list_item") start--;
+	const heading = blocks[start - 1];
+	const isSection =
+		start < blocks.length &&
+		blocks[start - 2]?.type === "divider" &&
+		heading?.type === "heading_3" &&
+		heading.heading_3.rich_text.map((item) => (item.type === "text" ? item.text.content : "")).join("") === FOOTNOTES_HEADING;
+	return isSection ? start : -1;
+}
+
 function getPhrasingText(nodes: PhrasingContent[]): string {
 	let out = "";
 	for (const node of nodes) {
@@ -165,7 +435,7 @@ function getPhrasingText(nodes: PhrasingContent[]): string {
 			node.type === "link"
 		) {
 			out += getPhrasingText(node.children);
-		} else if (node.type === "inlineCode") {
+		} else if (node.type === "inlineCode" || node.type === "inlineMath") {
 			out += node.value;
 		} else if (node.type === "break") {
 			out += "\n";
@@ -199,17 +469,316 @@ function getBlockText(node: BlockContent): string {
 	return "";
 }
 
-function listItemToRichText(item: ListItem): NotionRichText[] {
-	const firstChild = item.children[0];
-	if (firstChild?.type === "paragraph") {
-		return phrasingToRichText(firstChild.children);
+function plainText(content: string): NotionRichText {
+	return {
+		type: "text",
+		text: { content, link: null },
+		annotations: {
+			bold: false,
+			italic: false,
+			strikethrough: false,
+			underline: false,
+			code: false,
+			color: "default",
+		},
+	};
+}
+
+/**
+ * Build a Notion image block from an inline image. Sources are kept as
+ * external URLs here; data URIs and other non-public sources are swapped for
+ * file uploads by the Notion client before the blocks are sent.
+ */
+function imageToBlock(
+	node: PhrasingContent,
+	ctx: ConversionContext
+): NotionBlock | null {
+	let url: string | undefined;
+	let alt: string | null | undefined;
+	if (node.type === "image") {
+		url = node.url;
+		alt = node.alt;
+	} else if (node.type === "imageReference") {
+		url = ctx.definitions.get(node.identifier);
+		alt = node.alt;
+	}
+	if (!url || !/^(https?:|data:)/i.test(url)) return null;
+
+	const image: NotionImage = { type: "external", external: { url } };
+	if (alt) {
+		image.caption = [plainText(alt)];
+	}
+	return { type: "image", image };
+}
+
+/**
+ * Split paragraph content on images, which Notion only supports as blocks.
+ * Returns text runs as rich text and images as image blocks, in order.
+ */
+function splitOnImages(
+	nodes: PhrasingContent[],
+	ctx: ConversionContext
+): Array<NotionRichText[] | NotionBlock> {
+	const parts: Array<NotionRichText[] | NotionBlock> = [];
+	let run: PhrasingContent[] = [];
+	let hasImage = false;
+
+	const flush = () => {
+		if (run.length > 0 && (!hasImage || getPhrasingText(run).trim() !== "")) {
+			parts.push(phrasingToRichText(run, ctx));
+		}
+		run = [];
+	};
+
+	for (const node of nodes) {
+		const image = node.type === "image" || node.type === "imageReference" ? imageToBlock(node, ctx) : null;
+		if (image) {
+			hasImage = true;
+			flush();
+			parts.push(image);
+		} else {
+			run.push(node);
+		}
+	}
+	flush();
+
+	return parts;
+}
+
+/**
+ * Convert a list item to a Notion list block. The first paragraph becomes the
+ * item's text; everything after it (nested lists, further paragraphs, code)
+ * becomes child blocks. GFM task list items (`- [ ]` / `- [x]`) become to-dos.
+ */
+function listItemToBlock(item: ListItem, ordered: boolean, ctx: ConversionContext): NotionBlock {
+	const [first, ...rest] = item.children;
+	const richText: NotionRichText[] = [];
+	const children: NotionBlock[] = [];
+	if (first?.type === "paragraph") {
+		// Images in the item text can only live in Notion as child blocks
+		for (const part of splitOnImages(first.children, ctx)) {
+			if (Array.isArray(part)) richText.push(...part);
+			else children.push(part);
+		}
+	}
+	const childNodes = first?.type === "paragraph" ? rest : item.children;
+	if (richText.length === 0) {
+		richText.push(plainText(" "));
+	}
+
+	children.push(...childNodes.flatMap((child) => processBlock(child as BlockContent, ctx)));
+	const content = children.length > 0 ? { rich_text: richText, children } : { rich_text: richText };
+
+	if (typeof item.checked === "boolean") {
+		return { type: "to_do", to_do: { ...content, checked: item.checked } };
+	}
+	if (ordered) {
+		return { type: "numbered_list_item", numbered_list_item: content };
 	}
-	return phrasingToRichText([]);
+	return { type: "bulleted_list_item", bulleted_list_item: content };
+}
+
+/**
+ * Build a Notion table from a GFM table. GFM tables always have a header row;
+ * an empty top-left cell is treated as a sign that the first column holds row headers.
+ */
+function tableToBlock(table: Table, ctx: ConversionContext): NotionBlock {
+	const width = Math.max(1, ...table.children.map((row) => row.children.length));
+	const rows: NotionBlock[] = table.children.map((row) => {
+		const cells: NotionRichText[][] = [];
+		for (let i = 0; i < width; i++) {
+			const cell = row.children[i];
+			cells.push(cell ? phrasingToRichText(cell.children, ctx) : []);
+		}
+		return { type: "table_row", table_row: { cells } };
+	});
+	const headerRow = table.children[0];
+	const firstHeaderCell = headerRow?.children[0];
+	const hasRowHeader =
+		table.children.length > 1 &&
+		firstHeaderCell !== undefined &&
+		getPhrasingText(firstHeaderCell.children).trim() === "";
+
+	return {
+		type: "table",
+		table: {
+			table_width: width,
+			has_column_header: true,
+			has_row_header: hasRowHeader,
+			children: rows,
+		},
+	};
 }
 
-function processBlock(node: BlockContent, listOrdered?: boolean): NotionBlock[] {
+type AdmonitionKind = "note" | "tip" | "important" | "warning" | "caution";
+
+const CALLOUT_STYLES: Record<AdmonitionKind, { emoji: string; color: string }> = {
+	note: { emoji: "ℹ️", color: "blue_background" },
+	tip: { emoji: "💡", color: "green_background" },
+	important: { emoji: "❗", color: "purple_background" },
+	warning: { emoji: "⚠️", color: "yellow_background" },
+	caution: { emoji: "🛑", color: "red_background" },
+};
+
+/** Admonition labels (`[!TIP]`, `**Note:**`, `Warning:`) mapped to a callout kind. */
+const ADMONITION_LABELS: Record<string, AdmonitionKind> = {
+	note: "note",
+	info: "note",
+	tip: "tip",
+	hint: "tip",
+	important: "important",
+	warning: "warning",
+	warn: "warning",
+	caution: "caution",
+	danger: "caution",
+	error: "caution",
+};
+
+/** Leading emoji that mark a blockquote as a callout, without variation selectors. */
+const ADMONITION_EMOJI: Record<string, AdmonitionKind> = {
+	"ℹ": "note",
+	"📝": "note",
+	"💡": "tip",
+	"❗": "important",
+	"⚠": "warning",
+	"🛑": "caution",
+	"🚨": "caution",
+	"❌": "caution",
+};
+
+/** Strip `pattern` from the start of the first text node, dropping it if nothing is left. */
+function trimLeadingText(nodes: PhrasingContent[], pattern: RegExp): PhrasingContent[] {
+	const [first, ...rest] = nodes;
+	if (first?.type !== "text") return nodes;
+	const value = first.value.replace(pattern, "");
+	return value ? [{ ...first, value }, ...rest] : rest;
+}
+
+/**
+ * Detect an admonition marker at the start of a blockquote's first paragraph:
+ * GitHub-style `[!TIP]`, a bold label such as `**Note:**`, a leading emoji
+ * such as `⚠️`, or a plain `Warning:` label. Returns the kind and the
+ * paragraph content with the marker removed.
+ */
+function detectAdmonition(nodes: PhrasingContent[]): { kind: AdmonitionKind; rest: PhrasingContent[] } | null {
+	const [first, ...others] = nodes;
+	if (first?.type === "strong") {
+		const label = getPhrasingText(first.children).trim().replace(/:$/, "").toLowerCase();
+		const kind = ADMONITION_LABELS[label];
+		return kind ? { kind, rest: trimLeadingText(others, /^:?\s*/) } : null;
+	}
+	if (first?.type !== "text") return null;
+
+	const github = /^\[!(\w+)\]\s*/.exec(first.value);
+	if (github) {
+		const kind = ADMONITION_LABELS[github[1].toLowerCase()];
+		return kind ? { kind, rest: trimLeadingText(nodes, /^\[!\w+\]\s*/) } : null;
+	}
+
+	for (const [emoji, kind] of Object.entries(ADMONITION_EMOJI)) {
+		if (first.value.startsWith(emoji)) {
+			return { kind, rest: trimLeadingText(nodes, new RegExp(`^${emoji}\uFE0F?\\s*`, "u")) };
+		}
+	}
+
+	const label = /^(\w+):\s*/.exec(first.value);
+	const kind = label ? ADMONITION_LABELS[label[1].toLowerCase()] : undefined;
+	return kind ? { kind, rest: trimLeadingText(nodes, /^\w+:\s*/) } : null;
+}
+
+/**
+ * Convert a blockquote to a quote, or to a callout when it starts with an
+ * admonition marker. Leading paragraphs become the block's text (one line
+ * each); everything from the first non-paragraph on becomes child blocks.
+ */
+function blockquoteToBlock(node: Blockquote, ctx: ConversionContext): NotionBlock {
+	const paragraphs: PhrasingContent[][] = [];
+	let index = 0;
+	for (; index < node.children.length; index++) {
+		const child = node.children[index];
+		if (child.type !== "paragraph") break;
+		paragraphs.push(child.children);
+	}
+
+	const admonition = paragraphs.length > 0 ? detectAdmonition(paragraphs[0]) : null;
+	if (admonition) {
+		paragraphs[0] = admonition.rest;
+	}
+
+	const richText: NotionRichText[] = [];
+	for (const paragraph of paragraphs) {
+		const parts = phrasingToRichText(paragraph, ctx);
+		if (parts.length === 0) continue;
+		if (richText.length > 0) richText.push(plainText("\n"));
+		richText.push(...parts);
+	}
+	if (richText.length === 0) {
+		richText.push(plainText(" "));
+	}
+
+	const children = node.children.slice(index).flatMap((child) => processBlock(child as BlockContent, ctx));
+	const nested = children.length > 0 ? { children } : {};
+
+	if (admonition) {
+		const style = CALLOUT_STYLES[admonition.kind];
+		return {
+			type: "callout",
+			callout: {
+				rich_text: richText,
+				icon: { type: "emoji", emoji: style.emoji },
+				color: style.color,
+				...nested,
+			},
+		};
+	}
+	return { type: "quote", quote: { rich_text: richText, ...nested } };
+}
+
+/**
+ * Convert a heading. H1–H3 map to Notion headings (toggleable in toggle
+ * heading mode); H4–H6 follow the deepHeadings option. `children` is the
+ * nested section content, for headings that open a section.
+ */
+function headingToBlock(node: Heading, ctx: ConversionContext, children: NotionBlock[] = []): NotionBlock {
+	const richText = phrasingToRichText(node.children, ctx);
+	if (richText.length === 0) {
+		richText.push(plainText(" "));
+	}
+	const nested = children.length > 0 ? { children } : {};
+
+	if (node.depth <= 2) {
+		const block = ctx.options.toggleHeadings
+			? { rich_text: richText, is_toggleable: true, ...nested }
+			: { rich_text: richText };
+		if (node.depth === 1) return { type: "heading_1", heading_1: block };
+		return { type: "heading_2", heading_2: block };
+	}
+	if (node.depth === 3) {
+		return { type: "heading_3", heading_3: { rich_text: richText } };
+	}
+
+	const boldText = richText.map((r) => ({ ...r, annotations: { ...r.annotations, bold: true } }));
+	if (ctx.options.deepHeadings === "toggle") {
+		return { type: "toggle", toggle: { rich_text: boldText, ...nested } };
+	}
+	return { type: "paragraph", paragraph: { rich_text: boldText } };
+}
+
+/** Whether a heading nests the content that follows it, up to the next heading of the same or higher level. */
+function opensSection(node: Heading, ctx: ConversionContext): boolean {
+	if (node.depth <= 2) return ctx.options.toggleHeadings === true;
+	return node.depth >= 4 && ctx.options.deepHeadings === "toggle";
+}
+
+function processBlock(node: BlockContent, ctx: ConversionContext): NotionBlock[] {
 	if (node.type === "paragraph") {
-		const richText = phrasingToRichText(node.children);
+		const parts = splitOnImages(node.children, ctx);
+		if (parts.some((part) => !Array.isArray(part))) {
+			return parts.map((part) =>
+				Array.isArray(part) ? { type: "paragraph", paragraph: { rich_text: part } } : part
+			);
+		}
+		const richText = parts.flatMap((part) => part as NotionRichText[]);
 		if (richText.length === 0) {
 			richText.push({
 				type: "text",
@@ -228,70 +797,11 @@ function processBlock(node: BlockContent, listOrdered?: boolean): NotionBlock[]
 	}
 
 	if (node.type === "heading") {
-		const richText = phrasingToRichText(node.children);
-		if (richText.length === 0) {
-			richText.push({
-				type: "text",
-				text: { content: " ", link: null },
-				annotations: {
-					bold: false,
-					italic: false,
-					strikethrough: false,
-					underline: false,
-					code: false,
-					color: "default",
-				},
-			});
-		}
-		const block = { rich_text: richText };
-		if (node.depth === 1) return [{ type: "heading_1", heading_1: block }];
-		if (node.depth === 2) return [{ type: "heading_2", heading_2: block }];
-		return [{ type: "heading_3", heading_3: block }];
+		return [headingToBlock(node, ctx)];
 	}
 
 	if (node.type === "blockquote") {
-		const richTextParts: NotionRichText[] = [];
-		for (const child of node.children) {
-			if (child.type === "paragraph") {
-				richTextParts.push(...phrasingToRichText(child.children));
-				richTextParts.push({
-					type: "text",
-					text: { content: "\n", link: null },
-					annotations: {
-						bold: false,
-						italic: false,
-						strikethrough: false,
-						underline: false,
-						code: false,
-						color: "default",
-					},
-				});
-			} else {
-				const inner = processBlock(child as BlockContent);
-				const first = inner[0];
-				if (first && "paragraph" in first) {
-					richTextParts.push(...first.paragraph.rich_text);
-				}
-			}
-		}
-		const richText =
-			richTextParts.length > 0
-				? richTextParts.slice(0, -1)
-				: [
-						{
-							type: "text" as const,
-							text: { content: " ", link: null as { url: string } | null },
-							annotations: {
-								bold: false,
-								italic: false,
-								strikethrough: false,
-								underline: false,
-								code: false,
-								color: "default",
-							},
-						},
-					];
-		return [{ type: "quote", quote: { rich_text: richText } }];
+		return [blockquoteToBlock(node, ctx)];
 	}
 
 	if (node.type === "code") {
@@ -309,45 +819,24 @@ function processBlock(node: BlockContent, listOrdered?: boolean): NotionBlock[]
 				},
 			},
 		];
-		const lang = node.lang ?? "plain text";
-		return [
-			{
-				type: "code",
-				code: { rich_text: richText, language: lang },
-			},
-		];
+		const code: { rich_text: NotionRichText[]; language: NotionCodeLanguage; caption?: NotionRichText[] } = {
+			rich_text: richText,
+			language: normalizeCodeLanguage(node.lang),
+		};
+		const caption = codeMetaToCaption(node.meta);
+		if (caption) code.caption = caption;
+		return [{ type: "code", code }];
+	}
+
+	if (node.type === "math") {
+		return [{ type: "equation", equation: { expression: node.value } }];
 	}
 
 	if (node.type === "list") {
 		const list = node as List;
 		const blocks: NotionBlock[] = [];
 		for (const item of list.children) {
-			const richText = listItemToRichText(item);
-			if (richText.length === 0) {
-				richText.push({
-					type: "text",
-					text: { content: " ", link: null },
-					annotations: {
-						bold: false,
-						italic: false,
-						strikethrough: false,
-						underline: false,
-						code: false,
-						color: "default",
-					},
-				});
-			}
-			if (list.ordered) {
-				blocks.push({
-					type: "numbered_list_item",
-					numbered_list_item: { rich_text: richText },
-				});
-			} else {
-				blocks.push({
-					type: "bulleted_list_item",
-					bulleted_list_item: { rich_text: richText },
-				});
-			}
+			blocks.push(listItemToBlock(item, list.ordered === true, ctx));
 		}
 		return blocks;
 	}
@@ -357,39 +846,16 @@ function processBlock(node: BlockContent, listOrdered?: boolean): NotionBlock[]
 	}
 
 	if (node.type === "table") {
-		// Notion tables need table + table_row. Simplify: emit as paragraph with table text
-		const table = node as Table;
-		const rows = table.children
-			.map((row) =>
-				row.children
-					.map((cell) => getPhrasingText(cell.children))
-					.join(" | ")
-			)
-			.join("\n");
-		return [
-			{
-				type: "paragraph",
-				paragraph: {
-					rich_text: [
-						{
-							type: "text",
-							text: { content: rows || " ", link: null },
-							annotations: {
-								bold: false,
-								italic: false,
-								strikethrough: false,
-								underline: false,
-								code: false,
-								color: "default",
-							},
-						},
-					],
-				},
-			},
-		];
+		return [tableToBlock(node as Table, ctx)];
+	}
+
+	const { type } = node as Nodes;
+	if (type === "definition" || type === "footnoteDefinition") {
+		// Collected up front by collectDefinitions; rendered where referenced
+		return [];
 	}
 
-	// html, definition, footnoteDefinition - emit as empty paragraph
+	// html - emit as empty paragraph
 	return [
 		{
 			type: "paragraph",
@@ -413,27 +879,129 @@ function processBlock(node: BlockContent, listOrdered?: boolean): NotionBlock[]
 	];
 }
 
-export function markdownToNotionBlocks(markdown: string): NotionBlock[] {
-	const root = fromMarkdown(markdown) as Root;
+/** Split text items whose content exceeds MAX_TEXT_LENGTH, keeping annotations and links. */
+function splitLongText(items: NotionRichText[]): NotionRichText[] {
+	const result: NotionRichText[] = [];
+	for (const item of items) {
+		if (item.type !== "text") {
+			result.push(item);
+			continue;
+		}
+		let content = item.text.content;
+		while (content.length > MAX_TEXT_LENGTH) {
+			let cut = MAX_TEXT_LENGTH;
+			// Don't split a surrogate pair
+			const code = content.charCodeAt(cut - 1);
+			if (code >= 0xd800 && code <= 0xdbff) cut--;
+			result.push({ ...item, text: { ...item.text, content: content.slice(0, cut) } });
+			content = content.slice(cut);
+		}
+		result.push(content === item.text.content ? item : { ...item, text: { ...item.text, content } });
+	}
+	return result;
+}
+
+/**
+ * Fit rich text that cannot move to another block, such as a table cell, a
+ * caption or a page property: long text is split, and items past
+ * MAX_RICH_TEXT_ITEMS are dropped.
+ */
+export function fitRichText(items: NotionRichText[]): NotionRichText[] {
+	return splitLongText(items).slice(0, MAX_RICH_TEXT_ITEMS);
+}
+
+type BlockFields = {
+	rich_text?: NotionRichText[];
+	children?: NotionBlock[];
+	cells?: NotionRichText[][];
+	caption?: NotionRichText[];
+};
+
+/**
+ * Make blocks fit Notion's rich text limits. Long text is split into several
+ * items, and a block whose rich_text would exceed MAX_RICH_TEXT_ITEMS becomes
+ * several consecutive blocks of the same type (children stay on the last one).
+ * Table cells and captions cannot be split, so they are truncated instead.
+ * Blocks built elsewhere (Sheets, Slides) go through this before upload too.
+ */
+export function enforceRichTextLimits(blocks: NotionBlock[]): NotionBlock[] {
+	const result: NotionBlock[] = [];
+
+	for (const block of blocks) {
+		const fields: BlockFields = { ...(block as unknown as Record<string, BlockFields>)[block.type] };
+		if (fields.children) {
+			fields.children = enforceRichTextLimits(fields.children);
+		}
+		if (fields.cells) {
+			fields.cells = fields.cells.map(fitRichText);
+		}
+		if (fields.caption) {
+			fields.caption = fitRichText(fields.caption);
+		}
+		if (!fields.rich_text) {
+			result.push({ ...block, [block.type]: fields } as NotionBlock);
+			continue;
+		}
+
+		const richText = splitLongText(fields.rich_text);
+		const { children, ...rest } = fields;
+		for (let i = 0; i < richText.length || i === 0; i += MAX_RICH_TEXT_ITEMS) {
+			const isLast = i + MAX_RICH_TEXT_ITEMS >= richText.length;
+			const chunk: BlockFields = { ...rest, rich_text: richText.slice(i, i + MAX_RICH_TEXT_ITEMS) };
+			if (isLast && children) chunk.children = children;
+			result.push({ ...block, [block.type]: chunk } as NotionBlock);
+		}
+	}
+
+	return result;
+}
+
+function collectDefinitions(node: Nodes, ctx: ConversionContext): void {
+	if (node.type === "definition") {
+		ctx.definitions.set(node.identifier, node.url);
+	} else if (node.type === "footnoteDefinition") {
+		ctx.footnoteDefinitions.set(node.identifier, node);
+	}
+	if ("children" in node) {
+		for (const child of node.children) {
+			collectDefinitions(child, ctx);
+		}
+	}
+}
+
+/** Convert a run of top-level nodes, nesting section content under headings that open a section. */
+function convertNodes(nodes: RootContent[], ctx: ConversionContext): NotionBlock[] {
 	const blocks: NotionBlock[] = [];
 
-	for (const node of root.children) {
-		if (node.type === "paragraph" || node.type === "heading") {
-			blocks.push(...processBlock(node as BlockContent));
+	for (let i = 0; i < nodes.length; i++) {
+		const node = nodes[i];
+		if (node.type === "heading" && opensSection(node, ctx)) {
+			let end = i + 1;
+			while (end < nodes.length) {
+				const next = nodes[end];
+				if (next.type === "heading" && next.depth <= node.depth) break;
+				end++;
+			}
+			blocks.push(headingToBlock(node, ctx, convertNodes(nodes.slice(i + 1, end), ctx)));
+			i = end - 1;
+		} else if (node.type === "paragraph" || node.type === "heading") {
+			blocks.push(...processBlock(node as BlockContent, ctx));
 		} else if (
 			node.type === "blockquote" ||
 			node.type === "code" ||
+			node.type === "math" ||
 			node.type === "list" ||
 			node.type === "thematicBreak" ||
 			node.type === "table"
 		) {
-			blocks.push(...processBlock(node as BlockContent));
+			blocks.push(...processBlock(node as BlockContent, ctx));
 		} else if (
 			node.type === "break" ||
 			node.type === "emphasis" ||
 			node.type === "strong" ||
 			node.type === "delete" ||
 			node.type === "inlineCode" ||
+			node.type === "inlineMath" ||
 			node.type === "link" ||
 			node.type === "image" ||
 			node.type === "imageReference" ||
@@ -451,4 +1019,72 @@ export function markdownToNotionBlocks(markdown: string): NotionBlock[] {
 	return blocks;
 }
 
+/**
+ * Whether an inline math source like `$x^2$` follows pandoc's rules: the
+ * opening `$` is followed by a non-space, the closing `$` is preceded by a
+ * non-space and not followed by a digit. Without this, "costs $10 and $20"
+ * would render "10 and " as an equation.
+ */
+function isPandocInlineMath(source: string, next: string | undefined): boolean {
+	const fence = /^\$+/.exec(source)?.[0].length ?? 0;
+	const inner = source.slice(fence, source.length - fence);
+	return inner.length > 0 && !/^\s/.test(inner) && !/\s$/.test(inner) && !/^\d/.test(next ?? "");
+}
+
+/** Turn inline math that fails the pandoc rules back into the literal text it was parsed from. */
+function restoreDollarText(node: Nodes, markdown: string): void {
+	if (!("children" in node)) return;
+	node.children = node.children.map((child) => {
+		if (child.type !== "inlineMath") {
+			restoreDollarText(child, markdown);
+			return child;
+		}
+		const start = child.position?.start.offset;
+		const end = child.position?.end.offset;
+		if (start === undefined || end === undefined) return child;
+		const source = markdown.slice(start, end);
+		return isPandocInlineMath(source, markdown[end]) ? child : { type: "text", value: source };
+	}) as typeof node.children;
+}
+
+export function markdownToNotionBlocks(
+	markdown: string,
+	options: MarkdownToBlocksOptions = {}
+): NotionBlock[] {
+	const root = fromMarkdown(markdown, {
+		extensions: [gfm(), math()],
+		mdastExtensions: [gfmFromMarkdown(), mathFromMarkdown()],
+	}) as Root;
+	restoreDollarText(root, markdown);
+	const ctx: ConversionContext = {
+		options,
+		definitions: new Map(),
+		footnoteDefinitions: new Map(),
+		footnoteOrder: [],
+	};
+	collectDefinitions(root, ctx);
+
+	const blocks = [...convertNodes(root.children, ctx), ...footnotesSection(ctx)];
+
+	return enforceRichTextLimits(blocks);
+}
+
+/** Identifies the converter version and options; the same markdown converts alike under the same key. */
+export function converterKey(options: MarkdownToBlocksOptions = {}): string {
+	return JSON.stringify([CONVERTER_VERSION, options.deepHeadings ?? "bold_paragraph", options.toggleHeadings ?? false]);
+}
+
+/**
+ * Fingerprint of what a page's blocks are generated from: the markdown and
+ * the converter key. Equal hashes mean the page content would come out the same.
+ */
+export async function conversionHash(
+	markdown: string,
+	options: MarkdownToBlocksOptions = {}
+): Promise<string> {
+	const input = new TextEncoder().encode(`${converterKey(options)}\n${markdown}`);
+	const digest = await crypto.subtle.digest("SHA-256", input);
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 export { NOTION_VERSION };
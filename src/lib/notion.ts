@@ -2,11 +2,31 @@
  * Notion API client for querying, creating, and updating database pages.
  */
 
-import type { NotionBlock } from "./markdown-to-blocks";
-import { markdownToNotionBlocks } from "./markdown-to-blocks";
+import type { BlockDiffOp, ExistingBlock } from "./block-diff";
+import { canUpdateInPlace, diffBlocks } from "./block-diff";
+import type { MarkdownToBlocksOptions, NotionBlock, NotionRichText } from "./markdown-to-blocks";
+import { enforceRichTextLimits, footnoteMarkerNumber, footnotesStart, markdownToNotionBlocks } from "./markdown-to-blocks";
+import type { RequestOptions } from "./http";
+import { createApiClient, PermanentHttpError } from "./http";
+import type { SheetColumn, SheetTabData } from "./sheets";
+import { inferColumns, rowProperties, rowSignature } from "./sheets";
 
 const NOTION_API_BASE = "https://api.notion.com/v1";
 const NOTION_VERSION = "2022-06-28";
+/** KV key prefix for cached image uploads, keyed by SHA-256 of the image bytes. */
+const IMAGE_CACHE_PREFIX = "image:";
+
+/** Notion allows an average of three requests per second per integration. */
+const notionApi = createApiClient({
+	requestsPerSecond: 3,
+	// 409 is a conflict between concurrent transactions, worth another try
+	isRetryable: (status) => status === 429 || status === 409 || status >= 500,
+	// Neither is applied, so creating pages and appending blocks can be retried too
+	isRetryableWrite: (status) => status === 429 || status === 409,
+});
+
+/** Queries and property or block patches: sending them twice does no harm. */
+const IDEMPOTENT: RequestOptions = { idempotent: true };
 
 export interface NotionEnv {
 	NOTION_API_KEY: string;
@@ -21,29 +41,35 @@ export interface NotionPage {
 			title?: { plain_text: string }[];
 			rich_text?: { plain_text: string }[];
 			date?: { start: string } | null;
+			status?: { name: string } | null;
+			select?: { name: string } | null;
+			number?: number | null;
+			url?: string | null;
 		};
 	};
 }
 
-export interface NotionBlockChild {
-	id: string;
-	type: string;
-}
+export type NotionBlockChild = ExistingBlock;
 
 function notionFetch(
 	apiKey: string,
 	path: string,
-	options: RequestInit = {}
+	options: RequestInit = {},
+	request?: RequestOptions
 ): Promise<Response> {
-	return fetch(`${NOTION_API_BASE}${path}`, {
-		...options,
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-			"Notion-Version": NOTION_VERSION,
-			"Content-Type": "application/json",
-			...options.headers,
+	return notionApi.fetch(
+		`${NOTION_API_BASE}${path}`,
+		{
+			...options,
+			headers: {
+				Authorization: `Bearer ${apiKey}`,
+				"Notion-Version": NOTION_VERSION,
+				"Content-Type": "application/json",
+				...options.headers,
+			},
 		},
-	});
+		request
+	);
 }
 
 export async function queryDatabaseByDriveId(
@@ -51,26 +77,422 @@ export async function queryDatabaseByDriveId(
 	databaseId: string,
 	driveFileId: string
 ): Promise<NotionPage | null> {
-	const response = await notionFetch(apiKey, `/databases/${databaseId}/query`, {
+	const response = await notionFetch(
+		apiKey,
+		`/databases/${databaseId}/query`,
+		{
+			method: "POST",
+			body: JSON.stringify({
+				filter: {
+					property: "Drive File ID",
+					rich_text: {
+						equals: driveFileId,
+					},
+				},
+				page_size: 1,
+			}),
+		},
+		IDEMPOTENT
+	);
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion query failed", response, err);
+	}
+
+	const data = (await response.json()) as { results: NotionPage[] };
+	return data.results[0] ?? null;
+}
+
+async function uploadFile(
+	apiKey: string,
+	bytes: Uint8Array,
+	contentType: string,
+	filename: string
+): Promise<string> {
+	const createResponse = await notionFetch(apiKey, "/file_uploads", {
 		method: "POST",
 		body: JSON.stringify({
-			filter: {
-				property: "Drive File ID",
-				rich_text: {
-					equals: driveFileId,
-				},
-			},
-			page_size: 1,
+			mode: "single_part",
+			filename,
+			content_type: contentType,
 		}),
 	});
 
+	if (!createResponse.ok) {
+		const err = await createResponse.text();
+		throw notionApi.error("Notion create file upload failed", createResponse, err);
+	}
+
+	const { id } = (await createResponse.json()) as { id: string };
+
+	const form = new FormData();
+	form.append("file", new Blob([bytes], { type: contentType }), filename);
+	// Not via notionFetch: the multipart boundary must be set by fetch itself
+	const sendResponse = await notionApi.fetch(`${NOTION_API_BASE}/file_uploads/${id}/send`, {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${apiKey}`,
+			"Notion-Version": NOTION_VERSION,
+		},
+		body: form,
+	});
+
+	if (!sendResponse.ok) {
+		const err = await sendResponse.text();
+		throw notionApi.error("Notion send file upload failed", sendResponse, err);
+	}
+
+	return id;
+}
+
+/**
+ * Whether Notion must host the image itself. Data URIs cannot be linked, and
+ * googleusercontent links from Drive exports are signed and expire.
+ */
+function needsUpload(url: string): boolean {
+	if (url.startsWith("data:")) return true;
+	try {
+		return new URL(url).hostname.endsWith("googleusercontent.com");
+	} catch {
+		return false;
+	}
+}
+
+async function loadImage(url: string): Promise<{ bytes: Uint8Array; contentType: string }> {
+	if (url.startsWith("data:")) {
+		const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(url);
+		if (!match) throw new Error("Invalid image data URI");
+		const contentType = match[1] || "image/png";
+		const bytes = match[2].includes(";base64")
+			? Uint8Array.from(atob(match[3]), (c) => c.charCodeAt(0))
+			: new TextEncoder().encode(decodeURIComponent(match[3]));
+		return { bytes, contentType };
+	}
+
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Image download failed: ${response.status} ${url}`);
+	}
+	const contentType = response.headers.get("Content-Type")?.split(";")[0] || "image/png";
+	return { bytes: new Uint8Array(await response.arrayBuffer()), contentType };
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+interface ImageUploads {
+	cache?: KVNamespace;
+	/** Upload IDs by content hash, for images repeated within a page. */
+	byHash: Map<string, string>;
+	/** Upload file names by upload ID, used to recognise already attached images when diffing. */
+	names: Map<string, string>;
+	/** Hashes whose upload ID was read from KV. */
+	cached: Set<string>;
+	/** Hashes uploaded for this page, written to KV once attached. */
+	uploaded: Set<string>;
+	/** Hashes not to look up in KV, because Notion rejected their cached upload. */
+	ignoreCached: Set<string>;
+}
+
+function newImageUploads(cache?: KVNamespace, ignoreCached: Iterable<string> = []): ImageUploads {
+	return { cache, byHash: new Map(), names: new Map(), cached: new Set(), uploaded: new Set(), ignoreCached: new Set(ignoreCached) };
+}
+
+/**
+ * Replace image sources Notion cannot fetch itself with Notion file uploads.
+ * Uploads are cached by content hash (per page, and in KV when configured) so
+ * an unchanged image is uploaded once rather than on every page update. New
+ * uploads only reach KV through saveImageUploads, after they are attached:
+ * Notion expires uploads left unattached for an hour.
+ */
+async function resolveImageBlocks(
+	apiKey: string,
+	blocks: NotionBlock[],
+	uploads: ImageUploads
+): Promise<NotionBlock[]> {
+	const resolved: NotionBlock[] = [];
+
+	for (const block of blocks) {
+		if (block.type === "image" && block.image.type === "external" && needsUpload(block.image.external.url)) {
+			const { bytes, contentType } = await loadImage(block.image.external.url);
+			const hash = await sha256Hex(bytes);
+			const extension = contentType.split("/")[1]?.replace("jpeg", "jpg").replace("svg+xml", "svg") ?? "png";
+			const filename = `image-${hash.slice(0, 12)}.${extension}`;
+			let uploadId = uploads.byHash.get(hash) ?? null;
+			if (!uploadId && !uploads.ignoreCached.has(hash)) {
+				uploadId = (await uploads.cache?.get(`${IMAGE_CACHE_PREFIX}${hash}`)) ?? null;
+				if (uploadId) uploads.cached.add(hash);
+			}
+			if (!uploadId) {
+				uploadId = await uploadFile(apiKey, bytes, contentType, filename);
+				uploads.uploaded.add(hash);
+			}
+			uploads.byHash.set(hash, uploadId);
+			uploads.names.set(uploadId, filename);
+			resolved.push({
+				type: "image",
+				image: { type: "file_upload", file_upload: { id: uploadId }, caption: block.image.caption },
+			});
+			continue;
+		}
+
+		const children = getChildBlocks(block);
+		resolved.push(children ? withChildBlocks(block, await resolveImageBlocks(apiKey, children, uploads)) : block);
+	}
+
+	return resolved;
+}
+
+/** Cache the uploads made for a page once Notion has attached them. */
+async function saveImageUploads(uploads: ImageUploads): Promise<void> {
+	for (const hash of uploads.uploaded) {
+		await uploads.cache?.put(`${IMAGE_CACHE_PREFIX}${hash}`, uploads.byHash.get(hash)!);
+	}
+}
+
+/**
+ * Run `write`, which puts `blocks` on the page with images resolved through
+ * `uploads`. When Notion rejects the content and some uploads came from KV,
+ * they may have expired or been deleted: those images are uploaded again and
+ * the content is synced once more.
+ */
+async function writeContent(
+	apiKey: string,
+	pageId: string,
+	blocks: NotionBlock[],
+	uploads: ImageUploads,
+	write: () => Promise<void>
+): Promise<void> {
+	try {
+		await write();
+	} catch (err) {
+		if (!(err instanceof PermanentHttpError && err.status === 400 && uploads.cached.size > 0)) throw err;
+		const retry = newImageUploads(uploads.cache, uploads.cached);
+		for (const hash of uploads.uploaded) {
+			retry.byHash.set(hash, uploads.byHash.get(hash)!);
+			retry.uploaded.add(hash);
+		}
+		// Diffs against whatever the failed write left behind
+		await syncChildren(apiKey, pageId, await resolveImageBlocks(apiKey, blocks, retry), retry);
+		await saveImageUploads(retry);
+		return;
+	}
+	await saveImageUploads(uploads);
+}
+
+/** List every (non-archived) page in a database. */
+export async function queryAllDatabasePages(
+	apiKey: string,
+	databaseId: string
+): Promise<NotionPage[]> {
+	const all: NotionPage[] = [];
+	let cursor: string | null = null;
+
+	do {
+		const response = await notionFetch(
+			apiKey,
+			`/databases/${databaseId}/query`,
+			{
+				method: "POST",
+				body: JSON.stringify(cursor ? { page_size: 100, start_cursor: cursor } : { page_size: 100 }),
+			},
+			IDEMPOTENT
+		);
+
+		if (!response.ok) {
+			const err = await response.text();
+			throw notionApi.error("Notion query failed", response, err);
+		}
+
+		const data = (await response.json()) as {
+			results: NotionPage[];
+			next_cursor: string | null;
+			has_more: boolean;
+		};
+
+		all.push(...data.results);
+		cursor = data.has_more ? data.next_cursor : null;
+	} while (cursor);
+
+	return all;
+}
+
+export function getDriveFileId(page: NotionPage): string | null {
+	return page.properties["Drive File ID"]?.rich_text?.[0]?.plain_text ?? null;
+}
+
+export function getPageTitle(page: NotionPage): string {
+	return (page.properties.Name?.title ?? []).map((t) => t.plain_text).join("");
+}
+
+function titleProperty(title: string) {
+	return { title: [{ text: { content: title } }] };
+}
+
+/** Property types a database may use for "Folder Path". */
+export type FolderPathPropertyType = "rich_text" | "select";
+
+export interface FolderPathValue {
+	path: string;
+	type: FolderPathPropertyType;
+}
+
+/** Properties derived from a doc's content, written when the database has them, see DatabaseSchema. */
+export interface ContentProperties {
+	/** A deck's number of slides, for "Slide Count". */
+	slideCount?: number;
+	/** Where to open the doc, for "Source URL". */
+	sourceUrl?: string;
+}
+
+/** Metadata mirrored from Drive that can change without the doc's content changing. */
+export interface PageMetadata extends ContentProperties {
+	title?: string;
+	folderPath?: FolderPathValue;
+	driveModified?: string;
+	/** Set to clear "Status", e.g. when a doc marked removed through REMOVED_STATUS is back. */
+	clearStatus?: { type: string };
+}
+
+/** The optional properties a database has. */
+export interface DatabaseSchema {
+	/** How "Folder Path" is stored; null when the database has no such property. */
+	folderPathType: FolderPathPropertyType | null;
+	/** Whether there is a "Slide Count" number property. */
+	slideCount: boolean;
+	/** Whether there is a "Source URL" url property. */
+	sourceUrl: boolean;
+}
+
+const FOLDER_PATH_SEPARATOR = " / ";
+
+/**
+ * Look up which optional properties the database has, and whether it stores
+ * "Folder Path" as text or a select. Properties it lacks are left out.
+ */
+export async function getDatabaseSchema(apiKey: string, databaseId: string): Promise<DatabaseSchema> {
+	const response = await notionFetch(apiKey, `/databases/${databaseId}`);
+
 	if (!response.ok) {
 		const err = await response.text();
-		throw new Error(`Notion query failed: ${response.status} ${err}`);
+		throw notionApi.error("Notion get database failed", response, err);
 	}
 
-	const data = (await response.json()) as { results: NotionPage[] };
-	return data.results[0] ?? null;
+	const { properties } = (await response.json()) as { properties: Record<string, { type: string }> };
+	const folderPathType = properties["Folder Path"]?.type;
+	return {
+		folderPathType: folderPathType === "rich_text" || folderPathType === "select" ? folderPathType : null,
+		slideCount: properties["Slide Count"]?.type === "number",
+		sourceUrl: properties["Source URL"]?.type === "url",
+	};
+}
+
+/** Format folder names as a "Folder Path" value; select options cannot contain commas. */
+export function formatFolderPath(folderPath: string[], type: FolderPathPropertyType): string {
+	const path = folderPath.join(FOLDER_PATH_SEPARATOR);
+	return type === "select" ? path.replace(/,/g, "") : path;
+}
+
+export function getFolderPath(page: NotionPage): string {
+	const property = page.properties["Folder Path"];
+	return property?.select?.name ?? (property?.rich_text ?? []).map((t) => t.plain_text).join("");
+}
+
+function metadataProperties(metadata: PageMetadata): Record<string, unknown> {
+	const properties: Record<string, unknown> = {};
+	if (metadata.title !== undefined) {
+		properties.Name = titleProperty(metadata.title);
+	}
+	if (metadata.folderPath) {
+		const { path, type } = metadata.folderPath;
+		// An empty select clears the option; root-level docs have no folder
+		properties["Folder Path"] =
+			type === "select"
+				? { select: path ? { name: path } : null }
+				: { rich_text: path ? [{ text: { content: path } }] : [] };
+	}
+	if (metadata.slideCount !== undefined) {
+		properties["Slide Count"] = { number: metadata.slideCount };
+	}
+	if (metadata.sourceUrl !== undefined) {
+		properties["Source URL"] = { url: metadata.sourceUrl };
+	}
+	if (metadata.clearStatus) {
+		properties.Status = { [metadata.clearStatus.type]: null };
+	}
+	if (metadata.driveModified !== undefined) {
+		properties["Drive Modified"] = { date: { start: formatDateForNotion(metadata.driveModified) } };
+	}
+	return properties;
+}
+
+/** Update a page's metadata without touching its content, e.g. after a Drive rename or move. */
+export async function updatePageMetadata(
+	apiKey: string,
+	pageId: string,
+	metadata: PageMetadata
+): Promise<void> {
+	const response = await notionFetch(
+		apiKey,
+		`/pages/${pageId}`,
+		{
+			method: "PATCH",
+			body: JSON.stringify({ properties: metadataProperties(metadata) }),
+		},
+		IDEMPOTENT
+	);
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion update page metadata failed", response, err);
+	}
+}
+
+/** The page's "Status" value, from a status or select property; null when unset or missing. */
+export function getPageStatus(page: NotionPage): string | null {
+	const status = page.properties.Status;
+	return (status?.status ?? status?.select)?.name ?? null;
+}
+
+/**
+ * Take a page out of the wiki once its Google Doc is gone: archive it, or,
+ * when `removedStatus` is set, set its "Status" property (a status or select
+ * property) to that value instead.
+ */
+export async function removePage(
+	apiKey: string,
+	page: NotionPage,
+	removedStatus?: string
+): Promise<void> {
+	let body: Record<string, unknown>;
+	if (removedStatus) {
+		const status = page.properties.Status;
+		if (!status || (status.type !== "status" && status.type !== "select")) {
+			throw new Error(`Notion page ${page.id} has no "Status" status or select property`);
+		}
+		if (getPageStatus(page) === removedStatus) return;
+		body = { properties: { Status: { [status.type]: { name: removedStatus } } } };
+	} else {
+		body = { archived: true };
+	}
+
+	const response = await notionFetch(
+		apiKey,
+		`/pages/${page.id}`,
+		{
+			method: "PATCH",
+			body: JSON.stringify(body),
+		},
+		IDEMPOTENT
+	);
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion remove page failed", response, err);
+	}
 }
 
 function formatDateForNotion(isoDate: string): string {
@@ -79,6 +501,11 @@ function formatDateForNotion(isoDate: string): string {
 	return isoDate;
 }
 
+/** The blocks to write: ready-made `blocks` made to fit Notion's limits, or converted `markdown`. */
+function contentBlocks(params: { markdown: string; blocks?: NotionBlock[]; conversion?: MarkdownToBlocksOptions }): NotionBlock[] {
+	return params.blocks ? enforceRichTextLimits(params.blocks) : markdownToNotionBlocks(params.markdown, params.conversion);
+}
+
 export async function createPage(
 	apiKey: string,
 	databaseId: string,
@@ -87,18 +514,25 @@ export async function createPage(
 		driveFileId: string;
 		driveModified: string;
 		markdown: string;
+		/** Ready-made content, used instead of converting `markdown`. */
+		blocks?: NotionBlock[];
+		folderPath?: FolderPathValue;
+		/** Only those the database has, see DatabaseSchema. */
+		properties?: ContentProperties;
+		imageCache?: KVNamespace;
+		conversion?: MarkdownToBlocksOptions;
 	}
 ): Promise<string> {
-	const blocks = markdownToNotionBlocks(params.markdown);
+	const source = contentBlocks(params);
+	const uploads = newImageUploads(params.imageCache);
+	const blocks = await resolveImageBlocks(apiKey, source, uploads);
 
 	const createResponse = await notionFetch(apiKey, "/pages", {
 		method: "POST",
 		body: JSON.stringify({
 			parent: { database_id: databaseId },
 			properties: {
-				Name: {
-					title: [{ text: { content: params.title } }],
-				},
+				...metadataProperties({ ...params.properties, title: params.title, folderPath: params.folderPath }),
 				"Drive File ID": {
 					rich_text: [{ text: { content: params.driveFileId } }],
 				},
@@ -111,42 +545,195 @@ export async function createPage(
 
 	if (!createResponse.ok) {
 		const err = await createResponse.text();
-		throw new Error(`Notion create page failed: ${createResponse.status} ${err}`);
+		throw notionApi.error("Notion create page failed", createResponse, err);
 	}
 
 	const pageData = (await createResponse.json()) as { id: string };
 	const pageId = pageData.id;
 
 	if (blocks.length > 0) {
-		await appendBlocksInBatches(apiKey, pageId, blocks);
+		await writeContent(apiKey, pageId, source, uploads, async () => {
+			await appendBlocksInBatches(apiKey, pageId, blocks);
+		});
+		await linkFootnoteMarkers(apiKey, pageId, source);
 	}
 
 	return pageId;
 }
 
 const BLOCKS_PER_REQUEST = 100;
+/** Notion accepts at most two levels of nested children in a single append request. */
+const MAX_NESTING_DEPTH = 2;
+/** Notion caps a request at 1000 blocks in total, nested children included. */
+const MAX_BLOCKS_PER_PAYLOAD = 1000;
+/** Notion rejects request bodies over 500KB; keep headroom for the request envelope. */
+const MAX_PAYLOAD_BYTES = 450_000;
+
+function getChildBlocks(block: NotionBlock): NotionBlock[] | undefined {
+	const content = (block as unknown as Record<string, { children?: NotionBlock[] }>)[block.type];
+	return content?.children;
+}
+
+function withChildBlocks(block: NotionBlock, children: NotionBlock[] | undefined): NotionBlock {
+	const { children: _omitted, ...content } = (block as unknown as Record<string, { children?: NotionBlock[] }>)[block.type];
+	return {
+		...block,
+		[block.type]: children ? { ...content, children } : content,
+	} as NotionBlock;
+}
+
+function countBlocks(block: NotionBlock): number {
+	return 1 + (getChildBlocks(block) ?? []).reduce((n, child) => n + countBlocks(child), 0);
+}
+
+function payloadBytes(block: NotionBlock): number {
+	return new TextEncoder().encode(JSON.stringify(block)).length;
+}
+
+/** Tables must be created together with their rows, so they cannot sit at the deepest level. */
+function requiresInlineChildren(block: NotionBlock): boolean {
+	return block.type === "table";
+}
+
+function canNestChildren(children: NotionBlock[], childLevel: number): boolean {
+	if (childLevel > MAX_NESTING_DEPTH) return false;
+	return childLevel < MAX_NESTING_DEPTH || !children.some(requiresInlineChildren);
+}
+
+/**
+ * Trim a block to what Notion accepts inline: at most BLOCKS_PER_REQUEST
+ * children per array and at most MAX_NESTING_DEPTH levels. Whatever is left
+ * out is appended by appendRemainingChildren once the block exists.
+ */
+function prepareForRequest(block: NotionBlock, level: number): NotionBlock {
+	const children = getChildBlocks(block);
+	if (!children || children.length === 0) return block;
+
+	const childLevel = level + 1;
+	if (!canNestChildren(children, childLevel)) {
+		return withChildBlocks(block, undefined);
+	}
+
+	return withChildBlocks(
+		block,
+		children.slice(0, BLOCKS_PER_REQUEST).map((child) => prepareForRequest(child, childLevel))
+	);
+}
+
+/** Drop trailing inline children until the block fits in a request on its own. */
+function shrinkToFit(block: NotionBlock): NotionBlock {
+	const minChildren = requiresInlineChildren(block) ? 1 : 0;
+	let children = getChildBlocks(block) ?? [];
+	let fitted = block;
+	while (
+		children.length > minChildren &&
+		(countBlocks(fitted) > MAX_BLOCKS_PER_PAYLOAD || payloadBytes(fitted) > MAX_PAYLOAD_BYTES)
+	) {
+		children = children.slice(0, Math.max(minChildren, Math.floor(children.length / 2)));
+		fitted = withChildBlocks(block, children.length > 0 ? children : undefined);
+	}
+	return fitted;
+}
+
+/**
+ * Append the descendants of `block` that were left out of `sent` (its trimmed
+ * form, as sent to Notion), now that it exists as `createdId`.
+ */
+async function appendRemainingChildren(
+	apiKey: string,
+	createdId: string,
+	block: NotionBlock,
+	sent: NotionBlock
+): Promise<void> {
+	const children = getChildBlocks(block) ?? [];
+	const sentChildren = getChildBlocks(sent) ?? [];
+
+	const incomplete = sentChildren.map((child, i) => countBlocks(child) !== countBlocks(children[i]));
+	if (incomplete.some(Boolean)) {
+		const created = await getBlockChildren(apiKey, createdId);
+		for (let i = 0; i < sentChildren.length; i++) {
+			if (!incomplete[i]) continue;
+			const createdChild = created[i];
+			if (!createdChild) {
+				throw new Error(`Notion append blocks failed: missing created child at index ${i} of ${createdId}`);
+			}
+			await appendRemainingChildren(apiKey, createdChild.id, children[i], sentChildren[i]);
+		}
+	}
+
+	if (children.length > sentChildren.length) {
+		await appendBlocksInBatches(apiKey, createdId, children.slice(sentChildren.length));
+	}
+}
 
+/**
+ * Append blocks to a page or block, at the end or after the block `after`.
+ * Batches are bounded by block count and by payload size; children that do
+ * not fit in a request (too many, too large or nested too deeply) are appended
+ * in follow-up requests against the newly created parent blocks. Returns the
+ * IDs of the created top-level blocks.
+ */
 async function appendBlocksInBatches(
 	apiKey: string,
 	blockId: string,
-	blocks: NotionBlock[]
-): Promise<void> {
-	for (let i = 0; i < blocks.length; i += BLOCKS_PER_REQUEST) {
-		const batch = blocks.slice(i, i + BLOCKS_PER_REQUEST);
+	blocks: NotionBlock[],
+	after?: string
+): Promise<string[]> {
+	const createdIds: string[] = [];
+	const prepared = blocks.map((block) => shrinkToFit(prepareForRequest(block, 0)));
+
+	let start = 0;
+	while (start < blocks.length) {
+		let end = start;
+		let blockCount = 0;
+		let bytes = 0;
+		while (end < blocks.length && end - start < BLOCKS_PER_REQUEST) {
+			const nextCount = countBlocks(prepared[end]);
+			const nextBytes = payloadBytes(prepared[end]);
+			if (
+				end > start &&
+				(blockCount + nextCount > MAX_BLOCKS_PER_PAYLOAD || bytes + nextBytes > MAX_PAYLOAD_BYTES)
+			) {
+				break;
+			}
+			blockCount += nextCount;
+			bytes += nextBytes;
+			end++;
+		}
+
+		const batch = prepared.slice(start, end);
 		const response = await notionFetch(
 			apiKey,
 			`/blocks/${blockId}/children`,
 			{
 				method: "PATCH",
-				body: JSON.stringify({ children: batch }),
+				body: JSON.stringify(after ? { children: batch, after } : { children: batch }),
 			}
 		);
 
 		if (!response.ok) {
 			const err = await response.text();
-			throw new Error(`Notion append blocks failed: ${response.status} ${err}`);
+			throw notionApi.error("Notion append blocks failed", response, err);
+		}
+
+		// With `after`, results may run past the new blocks; the created ones come first
+		const data = (await response.json()) as { results: NotionBlockChild[] };
+		const created = data.results.slice(0, batch.length);
+		if (created.length < batch.length) {
+			throw new Error(`Notion append blocks failed: expected ${batch.length} created blocks, got ${created.length}`);
 		}
+		createdIds.push(...created.map((block) => block.id));
+
+		for (let j = 0; j < batch.length; j++) {
+			if (countBlocks(batch[j]) === countBlocks(blocks[start + j])) continue;
+			await appendRemainingChildren(apiKey, created[j].id, blocks[start + j], batch[j]);
+		}
+
+		if (after) after = created[created.length - 1].id;
+		start = end;
 	}
+
+	return createdIds;
 }
 
 async function getBlockChildren(
@@ -161,7 +748,7 @@ async function getBlockChildren(
 		url.searchParams.set("page_size", "100");
 		if (cursor) url.searchParams.set("start_cursor", cursor);
 
-		const response = await fetch(url.toString(), {
+		const response = await notionApi.fetch(url.toString(), {
 			headers: {
 				Authorization: `Bearer ${apiKey}`,
 				"Notion-Version": NOTION_VERSION,
@@ -170,7 +757,7 @@ async function getBlockChildren(
 
 		if (!response.ok) {
 			const err = await response.text();
-			throw new Error(`Notion get block children failed: ${response.status} ${err}`);
+			throw notionApi.error("Notion get block children failed", response, err);
 		}
 
 		const data = (await response.json()) as {
@@ -193,39 +780,485 @@ async function deleteBlock(apiKey: string, blockId: string): Promise<void> {
 
 	if (!response.ok) {
 		const err = await response.text();
-		throw new Error(`Notion delete block failed: ${response.status} ${err}`);
+		throw notionApi.error("Notion delete block failed", response, err);
+	}
+}
+
+/** Patch a block's own content in place; children are synced separately. */
+async function updateBlock(apiKey: string, blockId: string, block: NotionBlock): Promise<void> {
+	const content = (withChildBlocks(block, undefined) as unknown as Record<string, Record<string, unknown>>)[block.type];
+	// A table's width is fixed at creation; diffBlocks only pairs tables of equal width
+	const { table_width: _width, ...patch } = content;
+
+	const response = await notionFetch(
+		apiKey,
+		`/blocks/${blockId}`,
+		{
+			method: "PATCH",
+			body: JSON.stringify({ [block.type]: patch }),
+		},
+		IDEMPOTENT
+	);
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion update block failed", response, err);
+	}
+}
+
+/** Bring the children of a kept or updated block in line with the new block's children. */
+async function syncNestedChildren(
+	apiKey: string,
+	existing: NotionBlockChild,
+	block: NotionBlock,
+	uploads: ImageUploads
+): Promise<void> {
+	const children = getChildBlocks(block) ?? [];
+	if (!existing.has_children) {
+		if (children.length > 0) await appendBlocksInBatches(apiKey, existing.id, children);
+		return;
 	}
+	await syncChildren(apiKey, existing.id, children, uploads);
+}
+
+/** Index of the first kept or updated block, the first one new blocks can be inserted after; -1 if none. */
+function firstAnchorIndex(ops: BlockDiffOp[]): number {
+	return ops.findIndex((op) => op.op === "keep" || op.op === "update");
+}
+
+/** Whether new blocks come before the first kept or updated block, where Notion cannot insert them. */
+function insertsBeforeFirstAnchor(ops: BlockDiffOp[]): boolean {
+	const firstAnchor = firstAnchorIndex(ops);
+	return firstAnchor !== -1 && ops.slice(0, firstAnchor).some((op) => op.op === "insert");
+}
+
+/**
+ * Make the children of a page or block match `blocks`: unchanged blocks are
+ * kept, changed blocks are updated in place, new blocks are inserted after
+ * their predecessor and removed blocks are deleted. Notion can only insert
+ * after an existing block, so when new blocks come first the first existing
+ * block is updated into the first new one and the rest inserted after it.
+ * When their types differ, the new blocks are inserted after the first kept
+ * or updated block together with a fresh copy of it, and the original is
+ * deleted, so only that one block is recreated.
+ */
+async function syncChildren(
+	apiKey: string,
+	parentId: string,
+	blocks: NotionBlock[],
+	uploads: ImageUploads
+): Promise<void> {
+	// Child databases are synced by syncSheetDatabases
+	const existing = (await getBlockChildren(apiKey, parentId)).filter((block) => block.type !== "child_database");
+	let ops = diffBlocks(existing, blocks, uploads.names);
+	if (insertsBeforeFirstAnchor(ops) && canUpdateInPlace(existing[0], blocks[0])) {
+		ops = [
+			{ op: "update", existing: existing[0], block: blocks[0] },
+			...diffBlocks(existing.slice(1), blocks.slice(1), uploads.names),
+		];
+	}
+
+	let previousId: string | undefined;
+	if (insertsBeforeFirstAnchor(ops)) {
+		const firstAnchor = firstAnchorIndex(ops);
+		const anchor = ops[firstAnchor] as Extract<BlockDiffOp, { op: "keep" | "update" }>;
+		const leading: NotionBlock[] = [];
+		for (const op of ops.slice(0, firstAnchor)) {
+			if (op.op === "insert") leading.push(op.block);
+			else if (op.op === "delete") await deleteBlock(apiKey, op.existing.id);
+		}
+		const createdIds = await appendBlocksInBatches(apiKey, parentId, [...leading, anchor.block], anchor.existing.id);
+		await deleteBlock(apiKey, anchor.existing.id);
+		previousId = createdIds[createdIds.length - 1];
+		ops = ops.slice(firstAnchor + 1);
+	}
+
+	let pending: NotionBlock[] = [];
+	const flushInserts = async () => {
+		if (pending.length === 0) return;
+		const createdIds = await appendBlocksInBatches(apiKey, parentId, pending, previousId);
+		previousId = createdIds[createdIds.length - 1];
+		pending = [];
+	};
+
+	for (const op of ops) {
+		if (op.op === "insert") {
+			pending.push(op.block);
+		} else if (op.op === "delete") {
+			await deleteBlock(apiKey, op.existing.id);
+		} else {
+			await flushInserts();
+			if (op.op === "update") {
+				await updateBlock(apiKey, op.existing.id, op.block);
+			}
+			await syncNestedChildren(apiKey, op.existing, op.block, uploads);
+			previousId = op.existing.id;
+		}
+	}
+	await flushInserts();
+}
+
+/** Link to a block on its page, which Notion scrolls to and highlights. */
+function blockUrl(pageId: string, blockId: string): string {
+	return `https://www.notion.so/${pageId.replace(/-/g, "")}#${blockId.replace(/-/g, "")}`;
+}
+
+type RichTextFields = { rich_text?: NotionRichText[]; cells?: NotionRichText[][] };
+
+function richTextFields(block: NotionBlock | NotionBlockChild): RichTextFields {
+	return ((block as Record<string, unknown>)[block.type] ?? {}) as RichTextFields;
+}
+
+/** Link targets of a block's footnote markers in order, "" for a marker without a link. */
+function footnoteLinks(block: NotionBlock | NotionBlockChild): string[] {
+	const { rich_text = [], cells = [] } = richTextFields(block);
+	return [rich_text, ...cells]
+		.flat()
+		.filter((item) => item.type === "text" && footnoteMarkerNumber(item.text.content) !== null)
+		.map((item) => (item.type === "text" && item.text.link?.url) || "");
+}
+
+function hasFootnoteMarkers(block: NotionBlock): boolean {
+	return footnoteLinks(block).length > 0 || (getChildBlocks(block) ?? []).some(hasFootnoteMarkers);
+}
+
+/** The block with each footnote marker linked to its footnote's URL in `footnoteUrls`. */
+function withFootnoteLinks(block: NotionBlock, footnoteUrls: string[]): NotionBlock {
+	const link = (items: NotionRichText[]) =>
+		items.map((item) => {
+			const number = item.type === "text" ? footnoteMarkerNumber(item.text.content) : null;
+			if (item.type !== "text" || number === null || number > footnoteUrls.length) return item;
+			return { ...item, text: { ...item.text, link: { url: footnoteUrls[number - 1] } } };
+		});
+	const { rich_text, cells } = richTextFields(block);
+	return {
+		...block,
+		[block.type]: {
+			...richTextFields(block),
+			...(rich_text && { rich_text: link(rich_text) }),
+			...(cells && { cells: cells.map(link) }),
+		},
+	} as NotionBlock;
+}
+
+/**
+ * Link the footnote markers of a written page to the footnotes at its end.
+ * Links point at block IDs, which only exist once the footnotes are created,
+ * so this runs after each content write and patches only the blocks whose
+ * marker links are missing or point at a footnote that was since recreated.
+ * `blocks` are the blocks the page was written from.
+ */
+async function linkFootnoteMarkers(apiKey: string, pageId: string, blocks: NotionBlock[]): Promise<void> {
+	const start = footnotesStart(blocks);
+	if (start === -1) return;
+
+	const top = await getBlockChildren(apiKey, pageId);
+	const footnoteUrls = top.slice(start, blocks.length).map((footnote) => blockUrl(pageId, footnote.id));
+	const link = async (converted: NotionBlock[], existing: NotionBlockChild[]) => {
+		for (let i = 0; i < converted.length; i++) {
+			const block = converted[i];
+			const current = existing[i];
+			if (!current || current.type !== block.type || !hasFootnoteMarkers(block)) continue;
+			const linked = withFootnoteLinks(block, footnoteUrls);
+			if (footnoteLinks(linked).join(" ") !== footnoteLinks(current).join(" ")) {
+				await updateBlock(apiKey, current.id, linked);
+			}
+			const children = getChildBlocks(block) ?? [];
+			if (children.some(hasFootnoteMarkers)) {
+				await link(children, await getBlockChildren(apiKey, current.id));
+			}
+		}
+	};
+	await link(blocks, top);
 }
 
 export async function updatePage(
 	apiKey: string,
 	pageId: string,
-	params: { markdown: string; driveModified: string }
+	params: {
+		markdown: string;
+		/** Ready-made content, used instead of converting `markdown`. */
+		blocks?: NotionBlock[];
+		driveModified: string;
+		/** Changed title or folder path; properties left out are not touched. */
+		metadata?: PageMetadata;
+		imageCache?: KVNamespace;
+		conversion?: MarkdownToBlocksOptions;
+	}
 ): Promise<void> {
-	const blocks = markdownToNotionBlocks(params.markdown);
+	const source = contentBlocks(params);
+	const uploads = newImageUploads(params.imageCache);
+	const blocks = await resolveImageBlocks(apiKey, source, uploads);
+
+	await writeContent(apiKey, pageId, source, uploads, () => syncChildren(apiKey, pageId, blocks, uploads));
+	await linkFootnoteMarkers(apiKey, pageId, source);
+
+	const updateResponse = await notionFetch(
+		apiKey,
+		`/pages/${pageId}`,
+		{
+			method: "PATCH",
+			body: JSON.stringify({
+				properties: {
+					...metadataProperties(params.metadata ?? {}),
+					"Drive Modified": {
+						date: { start: formatDateForNotion(params.driveModified) },
+					},
+				},
+			}),
+		},
+		IDEMPOTENT
+	);
+
+	if (!updateResponse.ok) {
+		const err = await updateResponse.text();
+		throw notionApi.error("Notion update page failed", updateResponse, err);
+	}
+}
+
+/** Most row writes per sync of a page's sheet databases; the rest are written when the sync is retried. */
+const MAX_ROW_WRITES = 500;
+
+async function createSheetDatabase(apiKey: string, pageId: string, title: string, columns: SheetColumn[]): Promise<string> {
+	const response = await notionFetch(apiKey, "/databases", {
+		method: "POST",
+		body: JSON.stringify({
+			parent: { type: "page_id", page_id: pageId },
+			title: [{ type: "text", text: { content: title } }],
+			properties: Object.fromEntries(columns.map((column) => [column.name, { [column.type]: {} }])),
+		}),
+	});
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion create database failed", response, err);
+	}
+
+	return ((await response.json()) as { id: string }).id;
+}
+
+/** Whether a database has exactly `columns`, so its rows can be synced rather than recreated. */
+async function hasColumns(apiKey: string, databaseId: string, columns: SheetColumn[]): Promise<boolean> {
+	const response = await notionFetch(apiKey, `/databases/${databaseId}`);
+
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion get database failed", response, err);
+	}
+
+	const { properties } = (await response.json()) as { properties: Record<string, { type: string }> };
+	return (
+		Object.keys(properties).length === columns.length && columns.every((column) => properties[column.name]?.type === column.type)
+	);
+}
+
+/** Create a database row, or overwrite the values of `existingId`. */
+async function writeRow(apiKey: string, databaseId: string, properties: Record<string, unknown>, existingId?: string): Promise<void> {
+	const response = existingId
+		? await notionFetch(apiKey, `/pages/${existingId}`, { method: "PATCH", body: JSON.stringify({ properties }) }, IDEMPOTENT)
+		: await notionFetch(apiKey, "/pages", {
+				method: "POST",
+				body: JSON.stringify({ parent: { database_id: databaseId }, properties }),
+			});
 
-	const existingBlocks = await getBlockChildren(apiKey, pageId);
-	for (const block of existingBlocks) {
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion write database row failed", response, err);
+	}
+}
+
+/**
+ * Make a database's rows match a tab's data rows, in at most `budget` writes:
+ * unchanged rows are kept, changed rows overwrite rows that are gone, and
+ * whatever is left over is created or archived. Returns the writes made and
+ * those still needed. Rows are matched on their values, so their order is not synced.
+ */
+async function syncDatabaseRows(
+	apiKey: string,
+	databaseId: string,
+	columns: SheetColumn[],
+	rows: string[][],
+	budget: number
+): Promise<{ written: number; left: number }> {
+	const unmatched = new Map<string, NotionPage[]>();
+	for (const page of await queryAllDatabasePages(apiKey, databaseId)) {
+		const signature = rowSignature(columns, page.properties);
+		unmatched.set(signature, [...(unmatched.get(signature) ?? []), page]);
+	}
+
+	const missing: Record<string, unknown>[] = [];
+	for (const row of rows) {
+		const properties = rowProperties(columns, row);
+		const kept = unmatched.get(rowSignature(columns, properties));
+		if (!kept?.pop()) missing.push(properties);
+	}
+	const stale = [...unmatched.values()].flat();
+
+	const needed = Math.max(missing.length, stale.length);
+	const writes = Math.min(needed, budget);
+	for (let i = 0; i < writes; i++) {
+		if (i < missing.length) {
+			await writeRow(apiKey, databaseId, missing[i], stale[i]?.id);
+		} else {
+			await removePage(apiKey, stale[i]);
+		}
+	}
+	return { written: writes, left: needed - writes };
+}
+
+/**
+ * Sync a page's child databases with a sheet's tabs: one database per tab,
+ * matched by title, with columns typed from the tab's values and one row per
+ * data row. Only changed rows are written, so the databases keep their IDs
+ * (and links to them) across edits; a database whose columns changed is
+ * recreated. Child databases without a tab are deleted, so an empty `tabs`
+ * clears them. Large edits are written over several attempts: past
+ * MAX_ROW_WRITES this throws, and the retried sync continues where it left off.
+ */
+export async function syncSheetDatabases(apiKey: string, pageId: string, tabs: SheetTabData[]): Promise<void> {
+	const unused = (await getBlockChildren(apiKey, pageId)).filter((block) => block.type === "child_database");
+	let written = 0;
+	let left = 0;
+
+	for (const tab of tabs) {
+		const columns = inferColumns(tab.rows);
+		if (columns.length === 0) continue;
+
+		let databaseId: string | undefined;
+		const match = unused.findIndex((block) => (block.child_database as { title: string }).title === tab.title);
+		if (match !== -1) {
+			const [block] = unused.splice(match, 1);
+			if (await hasColumns(apiKey, block.id, columns)) {
+				databaseId = block.id;
+			} else {
+				await deleteBlock(apiKey, block.id);
+			}
+		}
+		databaseId ??= await createSheetDatabase(apiKey, pageId, tab.title, columns);
+		const result = await syncDatabaseRows(apiKey, databaseId, columns, tab.rows.slice(1), MAX_ROW_WRITES - written);
+		written += result.written;
+		left += result.left;
+	}
+	for (const block of unused) {
 		await deleteBlock(apiKey, block.id);
 	}
 
-	if (blocks.length > 0) {
-		await appendBlocksInBatches(apiKey, pageId, blocks);
+	if (left > 0) {
+		throw new Error(`Sheet databases of ${pageId} have ${left} row write(s) left; continuing on retry`);
+	}
+}
+
+interface FolderNode {
+	subfolders: Map<string, FolderNode>;
+	pageIds: string[];
+}
+
+function newFolderNode(): FolderNode {
+	return { subfolders: new Map(), pageIds: [] };
+}
+
+/** Build the folder tree from the "Folder Path" of each database page. */
+function buildFolderTree(pages: NotionPage[]): FolderNode {
+	const root = newFolderNode();
+	for (const page of pages) {
+		const path = getFolderPath(page);
+		let node = root;
+		for (const name of path ? path.split(FOLDER_PATH_SEPARATOR) : []) {
+			let next = node.subfolders.get(name);
+			if (!next) {
+				next = newFolderNode();
+				node.subfolders.set(name, next);
+			}
+			node = next;
+		}
+		node.pageIds.push(page.id);
 	}
+	return root;
+}
 
-	const updateResponse = await notionFetch(apiKey, `/pages/${pageId}`, {
-		method: "PATCH",
+async function createFolderPage(apiKey: string, parentId: string, name: string): Promise<string> {
+	const response = await notionFetch(apiKey, "/pages", {
+		method: "POST",
 		body: JSON.stringify({
-			properties: {
-				"Drive Modified": {
-					date: { start: formatDateForNotion(params.driveModified) },
-				},
-			},
+			parent: { page_id: parentId },
+			icon: { type: "emoji", emoji: "📁" },
+			properties: { title: titleProperty(name) },
 		}),
 	});
 
-	if (!updateResponse.ok) {
-		const err = await updateResponse.text();
-		throw new Error(`Notion update page failed: ${updateResponse.status} ${err}`);
+	if (!response.ok) {
+		const err = await response.text();
+		throw notionApi.error("Notion create folder page failed", response, err);
 	}
+
+	return ((await response.json()) as { id: string }).id;
+}
+
+/**
+ * Make a folder page match its node: one child page per subfolder (matched by
+ * title) and one link_to_page block per doc in the folder. Child pages with no
+ * matching folder are emptied and archived once nothing else is left in them.
+ * Returns whether the page is empty afterwards.
+ */
+async function syncFolderPage(apiKey: string, pageId: string, node: FolderNode): Promise<boolean> {
+	const children = await getBlockChildren(apiKey, pageId);
+	let remaining = children.length;
+
+	const childPages = new Map<string, string>();
+	for (const block of children) {
+		if (block.type !== "child_page") continue;
+		const title = (block.child_page as { title: string }).title;
+		if (node.subfolders.has(title) && !childPages.has(title)) {
+			childPages.set(title, block.id);
+		} else if (await syncFolderPage(apiKey, block.id, newFolderNode())) {
+			await deleteBlock(apiKey, block.id);
+			remaining--;
+		}
+	}
+	for (const [name, subfolder] of node.subfolders) {
+		const childId = childPages.get(name) ?? (await createFolderPage(apiKey, pageId, name));
+		if (!childPages.has(name)) remaining++;
+		await syncFolderPage(apiKey, childId, subfolder);
+	}
+
+	const wanted = new Set(node.pageIds);
+	for (const block of children) {
+		if (block.type !== "link_to_page") continue;
+		const target = (block.link_to_page as { page_id?: string }).page_id;
+		if (target && wanted.delete(target)) continue;
+		await deleteBlock(apiKey, block.id);
+		remaining--;
+	}
+
+	const links = [...wanted].map((id) => ({ type: "link_to_page", link_to_page: { type: "page_id", page_id: id } }));
+	for (let i = 0; i < links.length; i += BLOCKS_PER_REQUEST) {
+		const response = await notionFetch(apiKey, `/blocks/${pageId}/children`, {
+			method: "PATCH",
+			body: JSON.stringify({ children: links.slice(i, i + BLOCKS_PER_REQUEST) }),
+		});
+
+		if (!response.ok) {
+			const err = await response.text();
+			throw notionApi.error("Notion append folder links failed", response, err);
+		}
+	}
+	remaining += links.length;
+
+	return remaining === 0;
+}
+
+/**
+ * Mirror the Drive folder hierarchy as a tree of pages under `rootPageId`:
+ * one page per folder, nested like the folders, linking to the database
+ * pages of the docs inside. The tree is rebuilt from the "Folder Path" of
+ * every database page, so moved docs and renamed folders are picked up;
+ * folder pages left empty are archived. Pages under the root are managed by
+ * the sync and should not be edited by hand.
+ */
+export async function syncFolderTree(
+	apiKey: string,
+	rootPageId: string,
+	pages: NotionPage[]
+): Promise<void> {
+	await syncFolderPage(apiKey, rootPageId, buildFolderTree(pages));
 }
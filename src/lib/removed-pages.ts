@@ -0,0 +1,71 @@
+/**
+ * Decide which Notion pages belong to Google Docs that are gone, with a safety
+ * limit against archiving half the database after a broken listing.
+ */
+
+import type { GoogleDocInfo } from "./drive-traversal";
+import type { NotionPage } from "./notion";
+import { getDriveFileId, getPageStatus, queryAllDatabasePages, queryDatabaseByDriveId } from "./notion";
+
+/** Default cap on the share of database pages a full run may remove, see MAX_REMOVED_FRACTION. */
+const DEFAULT_MAX_REMOVED_FRACTION = 0.25;
+/** Removals always allowed per run regardless of the fraction, so small databases can shrink. */
+const MIN_REMOVALS_ALLOWED = 5;
+
+export interface RemovedPages {
+	/** Pages to remove. */
+	pages: NotionPage[];
+	/** Orphaned pages left alone because there were more than the safety limit allows. */
+	refused: number;
+}
+
+/** The MAX_REMOVED_FRACTION and REMOVED_STATUS settings. */
+export interface RemovalSettings {
+	maxRemovedFraction?: string;
+	/** Status of pages already removed, which are not removed again or counted against the limit. */
+	removedStatus?: string;
+}
+
+/**
+ * Find Notion pages whose Google Doc is gone. Incremental runs get explicit
+ * removals from the Drive changes feed. Full runs compare each page's
+ * "Drive File ID" with the crawled docs, and refuse to remove anything when
+ * the result looks like a broken listing rather than real deletions.
+ */
+export async function findRemovedPages(
+	apiKey: string,
+	databaseId: string,
+	listing: { mode: "full" | "incremental"; docs: GoogleDocInfo[]; removedIds: string[] },
+	settings: RemovalSettings = {}
+): Promise<RemovedPages> {
+	const { mode, docs, removedIds } = listing;
+	const { maxRemovedFraction, removedStatus } = settings;
+	// With REMOVED_STATUS, removed pages stay in the database
+	const isRemoved = (page: NotionPage) => removedStatus !== undefined && getPageStatus(page) === removedStatus;
+	if (mode === "incremental") {
+		const pages: NotionPage[] = [];
+		for (const id of removedIds) {
+			const page = await queryDatabaseByDriveId(apiKey, databaseId, id);
+			if (page && !isRemoved(page)) pages.push(page);
+		}
+		return { pages, refused: 0 };
+	}
+
+	const seen = new Set(docs.map((doc) => doc.id));
+	const pages = (await queryAllDatabasePages(apiKey, databaseId)).filter((page) => !isRemoved(page));
+	const orphans = pages.filter((page) => {
+		const driveFileId = getDriveFileId(page);
+		return driveFileId !== null && !seen.has(driveFileId);
+	});
+
+	const configured = Number.parseFloat(maxRemovedFraction ?? "");
+	const maxFraction = Number.isFinite(configured) ? configured : DEFAULT_MAX_REMOVED_FRACTION;
+	const limit = Math.max(MIN_REMOVALS_ALLOWED, Math.floor(pages.length * maxFraction));
+	if ((docs.length === 0 && pages.length > 0) || orphans.length > limit) {
+		console.error(
+			`[sync] Refusing to remove ${orphans.length} of ${pages.length} Notion page(s) after listing ${docs.length} doc(s); limit is ${limit}`
+		);
+		return { pages: [], refused: orphans.length };
+	}
+	return { pages: orphans, refused: 0 };
+}
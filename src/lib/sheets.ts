@@ -0,0 +1,207 @@
+/**
+ * Convert Google Sheets tabs, exported as CSV, into Notion content: a table
+ * block per tab, or typed columns and rows for a child database per tab.
+ */
+
+import type { NotionBlock, NotionRichText } from "./markdown-to-blocks";
+import { fitRichText } from "./markdown-to-blocks";
+
+export interface SheetTabData {
+	title: string;
+	rows: string[][];
+}
+
+export type SheetColumnType = "title" | "number" | "date" | "checkbox" | "rich_text";
+
+export interface SheetColumn {
+	name: string;
+	type: SheetColumnType;
+}
+
+/** Parse CSV as exported by Sheets: quoted fields, doubled quotes, LF or CRLF line ends. */
+export function parseCsv(csv: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < csv.length; i++) {
+		const char = csv[i];
+		if (quoted) {
+			if (char === '"' && csv[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && csv[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	// Sheets pads exports with empty rows up to the last formatted cell
+	while (rows.length > 0 && rows[rows.length - 1].every((cell) => cell === "")) {
+		rows.pop();
+	}
+	return rows;
+}
+
+function cellText(value: string): NotionRichText[] {
+	return value ? fitRichText([{ type: "text", text: { content: value, link: null } }]) : [];
+}
+
+/** One heading and table block per tab, the first row as column header. */
+export function sheetTabsToBlocks(tabs: SheetTabData[]): NotionBlock[] {
+	const blocks: NotionBlock[] = [];
+	for (const tab of tabs) {
+		blocks.push({ type: "heading_2", heading_2: { rich_text: cellText(tab.title) } });
+		const width = Math.max(0, ...tab.rows.map((row) => row.length));
+		if (width === 0) continue;
+		blocks.push({
+			type: "table",
+			table: {
+				table_width: width,
+				has_column_header: true,
+				has_row_header: false,
+				children: tab.rows.map((row) => ({
+					type: "table_row",
+					table_row: {
+						cells: Array.from({ length: width }, (_, i) => cellText(row[i] ?? "")),
+					},
+				})),
+			},
+		});
+	}
+	return blocks;
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/;
+
+function parseNumber(value: string): number | null {
+	if (!value || !NUMBER_PATTERN.test(value) || !/\d/.test(value)) return null;
+	return Number(value.replace(/,/g, ""));
+}
+
+/** ISO date (or date-time) for the date formats Sheets exports; M/D/YYYY is read US-style. */
+function parseDate(value: string): string | null {
+	const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(value);
+	const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+	let date: string;
+	if (iso) {
+		const [, year, month, day, hours, minutes, seconds] = iso;
+		date = `${year}-${month}-${day}`;
+		if (hours) date += `T${hours}:${minutes}:${seconds ?? "00"}`;
+	} else if (us) {
+		const [, month, day, year] = us;
+		date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+	} else {
+		return null;
+	}
+	return Number.isNaN(Date.parse(date)) ? null : date;
+}
+
+function parseCheckbox(value: string): boolean | null {
+	const upper = value.toUpperCase();
+	return upper === "TRUE" ? true : upper === "FALSE" ? false : null;
+}
+
+/**
+ * Column names and types from a tab's header row and values. The first
+ * column is the database title; other columns are numbers, dates or
+ * checkboxes when every non-empty value parses as one, and text otherwise.
+ */
+export function inferColumns(rows: string[][]): SheetColumn[] {
+	const [header = [], ...values] = rows;
+	const width = Math.max(0, ...rows.map((row) => row.length));
+	const names = new Set<string>();
+
+	return Array.from({ length: width }, (_, i) => {
+		// Notion property names must be unique and non-empty
+		const base = header[i]?.trim() || `Column ${i + 1}`;
+		let name = base;
+		for (let n = 2; names.has(name); n++) name = `${base} (${n})`;
+		names.add(name);
+
+		if (i === 0) return { name, type: "title" };
+		const cells = values.map((row) => row[i] ?? "").filter((cell) => cell !== "");
+		if (cells.length === 0) return { name, type: "rich_text" };
+		if (cells.every((cell) => parseCheckbox(cell) !== null)) return { name, type: "checkbox" };
+		if (cells.every((cell) => parseNumber(cell) !== null)) return { name, type: "number" };
+		if (cells.every((cell) => parseDate(cell) !== null)) return { name, type: "date" };
+		return { name, type: "rich_text" };
+	});
+}
+
+/** Notion property values for one data row, typed by `columns`. */
+export function rowProperties(columns: SheetColumn[], row: string[]): Record<string, unknown> {
+	const properties: Record<string, unknown> = {};
+	columns.forEach((column, i) => {
+		const value = row[i] ?? "";
+		switch (column.type) {
+			case "title":
+				properties[column.name] = { title: cellText(value) };
+				break;
+			case "number":
+				properties[column.name] = { number: parseNumber(value) };
+				break;
+			case "date": {
+				const date = parseDate(value);
+				properties[column.name] = { date: date ? { start: date } : null };
+				break;
+			}
+			case "checkbox":
+				properties[column.name] = { checkbox: parseCheckbox(value) ?? false };
+				break;
+			case "rich_text":
+				properties[column.name] = { rich_text: cellText(value) };
+				break;
+		}
+	});
+	return properties;
+}
+
+/**
+ * Comparable form of a row's values, from properties built by rowProperties
+ * or read back from Notion, to tell which database rows are unchanged.
+ */
+export function rowSignature(columns: SheetColumn[], properties: Record<string, unknown>): string {
+	return JSON.stringify(
+		columns.map((column) => {
+			const property = (properties[column.name] ?? {}) as Record<string, unknown>;
+			const value = property[column.type];
+			switch (column.type) {
+				case "title":
+				case "rich_text":
+					return ((value ?? []) as Array<{ plain_text?: string; text?: { content: string } }>)
+						.map((item) => item.plain_text ?? item.text?.content ?? "")
+						.join("");
+				case "date": {
+					// Notion returns dates with an offset added
+					const start = (value as { start: string } | null)?.start;
+					return start ? Date.parse(start) : null;
+				}
+				case "checkbox":
+					return value === true;
+				case "number":
+					return value ?? null;
+			}
+		})
+	);
+}
@@ -0,0 +1,120 @@
+/**
+ * Convert a Google Slides deck into an outline page: a header with the slide
+ * count and a link to the deck, then a section per slide with its title, body
+ * text and speaker notes.
+ */
+
+import type { Presentation, SlidesPage, SlidesPageElement, SlidesTextContent } from "./google-drive";
+import type { NotionBlock, NotionRichText } from "./markdown-to-blocks";
+
+const SLIDES_EDIT_BASE = "https://docs.google.com/presentation/d";
+const TITLE_PLACEHOLDERS = new Set(["TITLE", "CENTERED_TITLE"]);
+
+export interface SlideParagraph {
+	text: string;
+	bullet: boolean;
+}
+
+export interface SlideOutline {
+	/** The title placeholder's text; empty when the slide has none. */
+	title: string;
+	body: SlideParagraph[];
+	notes: SlideParagraph[];
+}
+
+export function presentationUrl(presentationId: string): string {
+	return `${SLIDES_EDIT_BASE}/${presentationId}/edit`;
+}
+
+/** Split a text body into non-empty paragraphs; soft line breaks (\v) become newlines. */
+function textParagraphs(text: SlidesTextContent | undefined): SlideParagraph[] {
+	const paragraphs: SlideParagraph[] = [];
+	let current: SlideParagraph | null = null;
+	for (const element of text?.textElements ?? []) {
+		if (element.paragraphMarker) {
+			current = { text: "", bullet: element.paragraphMarker.bullet !== undefined };
+			paragraphs.push(current);
+		} else if (element.textRun?.content) {
+			if (!current) {
+				current = { text: "", bullet: false };
+				paragraphs.push(current);
+			}
+			current.text += element.textRun.content;
+		}
+	}
+	return paragraphs
+		.map((paragraph) => ({ ...paragraph, text: paragraph.text.replace(/\v/g, "\n").trim() }))
+		.filter((paragraph) => paragraph.text !== "");
+}
+
+/** Paragraphs of every shape and table cell, in element order, descending into groups. */
+function elementParagraphs(elements: SlidesPageElement[] | undefined): SlideParagraph[] {
+	return (elements ?? []).flatMap((element) => [
+		...textParagraphs(element.shape?.text),
+		...(element.table?.tableRows ?? []).flatMap((row) => (row.tableCells ?? []).flatMap((cell) => textParagraphs(cell.text))),
+		...elementParagraphs(element.elementGroup?.children),
+	]);
+}
+
+function speakerNotes(slide: SlidesPage): SlideParagraph[] {
+	const notesPage = slide.slideProperties?.notesPage;
+	const notesId = notesPage?.notesProperties?.speakerNotesObjectId;
+	const notesShape = notesPage?.pageElements?.find((element) => element.objectId === notesId);
+	return textParagraphs(notesShape?.shape?.text);
+}
+
+/** Title, body and speaker notes of each slide, in deck order. */
+export function presentationOutline(presentation: Presentation): SlideOutline[] {
+	return (presentation.slides ?? []).map((slide) => {
+		const elements = slide.pageElements ?? [];
+		const titleElement = elements.find((element) => TITLE_PLACEHOLDERS.has(element.shape?.placeholder?.type ?? ""));
+		return {
+			title: textParagraphs(titleElement?.shape?.text)
+				.map((paragraph) => paragraph.text)
+				.join(" "),
+			body: elementParagraphs(elements.filter((element) => element !== titleElement)),
+			notes: speakerNotes(slide),
+		};
+	});
+}
+
+function text(content: string, link?: string): NotionRichText[] {
+	// Long text is split by enforceRichTextLimits when the page is written
+	return [{ type: "text", text: { content, link: link ? { url: link } : null } }];
+}
+
+function paragraphBlock(paragraph: SlideParagraph): NotionBlock {
+	return paragraph.bullet
+		? { type: "bulleted_list_item", bulleted_list_item: { rich_text: text(paragraph.text) } }
+		: { type: "paragraph", paragraph: { rich_text: text(paragraph.text) } };
+}
+
+/**
+ * A header paragraph with the slide count and a link to the deck, then a
+ * heading per slide (its title, or "Slide N") followed by its body text and
+ * a "Speaker notes" toggle.
+ */
+export function slidesToBlocks(slides: SlideOutline[], deckUrl: string): NotionBlock[] {
+	const blocks: NotionBlock[] = [
+		{
+			type: "paragraph",
+			paragraph: {
+				rich_text: [
+					...text(`${slides.length} ${slides.length === 1 ? "slide" : "slides"} · `),
+					...text("Open in Google Slides", deckUrl),
+				],
+			},
+		},
+	];
+	slides.forEach((slide, i) => {
+		blocks.push({ type: "heading_2", heading_2: { rich_text: text(slide.title || `Slide ${i + 1}`) } });
+		blocks.push(...slide.body.map(paragraphBlock));
+		if (slide.notes.length > 0) {
+			blocks.push({
+				type: "toggle",
+				toggle: { rich_text: text("Speaker notes"), children: slide.notes.map(paragraphBlock) },
+			});
+		}
+	});
+	return blocks;
+}
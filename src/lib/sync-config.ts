@@ -0,0 +1,126 @@
+/**
+ * Sync mappings: which Drive (or folder within it) syncs into which Notion
+ * database. Configured as JSON in SYNC_MAPPINGS, falling back to a single
+ * mapping built from the GOOGLE_DRIVE_SHARED_DRIVE_ID / NOTION_DATABASE_ID
+ * settings.
+ */
+
+import type { SyncFilter } from "./sync-filter";
+import { parseSyncFilter } from "./sync-filter";
+
+export interface SyncMapping {
+	/** Label used in logs and sync results. */
+	name: string;
+	/** Shared drive to read from. */
+	driveId: string;
+	/** Folder within the drive to sync instead of the whole drive. */
+	folderId?: string;
+	databaseId: string;
+	/** User to impersonate for this drive; defaults to GOOGLE_IMPERSONATE_USER. */
+	impersonateUser: string;
+	/** Page to build the folder page tree under; disabled when omitted. */
+	folderRootPageId?: string;
+	/** Which docs and folders sync; defaults to SYNC_FILTER. Everything syncs when omitted. */
+	filter?: SyncFilter;
+}
+
+type SyncConfigEnv = Pick<
+	Env,
+	| "SYNC_MAPPINGS"
+	| "GOOGLE_DRIVE_SHARED_DRIVE_ID"
+	| "NOTION_DATABASE_ID"
+	| "GOOGLE_IMPERSONATE_USER"
+	| "NOTION_FOLDER_ROOT_PAGE_ID"
+	| "SYNC_FILTER"
+>;
+
+function optionalString(entry: Record<string, unknown>, key: string, index: number): string | undefined {
+	const value = entry[key];
+	if (value === undefined || value === null || value === "") return undefined;
+	if (typeof value !== "string") {
+		throw new Error(`SYNC_MAPPINGS[${index}].${key} must be a string`);
+	}
+	return value;
+}
+
+function requiredString(entry: Record<string, unknown>, key: string, index: number): string {
+	const value = optionalString(entry, key, index);
+	if (!value) {
+		throw new Error(`SYNC_MAPPINGS[${index}].${key} is required`);
+	}
+	return value;
+}
+
+function parseDefaultFilter(env: SyncConfigEnv): SyncFilter | undefined {
+	if (!env.SYNC_FILTER?.trim()) return undefined;
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(env.SYNC_FILTER);
+	} catch (err) {
+		throw new Error(`SYNC_FILTER is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	return parseSyncFilter(parsed, "SYNC_FILTER");
+}
+
+/**
+ * Read the configured sync mappings. SYNC_MAPPINGS is a JSON array of
+ * `{ name?, driveId, folderId?, databaseId, impersonateUser?, folderRootPageId?, filter? }`.
+ * Throws on invalid JSON, missing IDs, invalid filters, duplicate names, or
+ * a database shared by several mappings: a full sync of one would archive the
+ * pages of the others as removed docs.
+ */
+export function parseSyncMappings(env: SyncConfigEnv): SyncMapping[] {
+	const defaultFilter = parseDefaultFilter(env);
+	if (!env.SYNC_MAPPINGS?.trim()) {
+		return [
+			{
+				name: "default",
+				driveId: env.GOOGLE_DRIVE_SHARED_DRIVE_ID,
+				databaseId: env.NOTION_DATABASE_ID,
+				impersonateUser: env.GOOGLE_IMPERSONATE_USER,
+				folderRootPageId: env.NOTION_FOLDER_ROOT_PAGE_ID || undefined,
+				filter: defaultFilter,
+			},
+		];
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(env.SYNC_MAPPINGS);
+	} catch (err) {
+		throw new Error(`SYNC_MAPPINGS is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	if (!Array.isArray(parsed) || parsed.length === 0) {
+		throw new Error("SYNC_MAPPINGS must be a non-empty JSON array");
+	}
+
+	const names = new Set<string>();
+	const databases = new Map<string, string>();
+	return parsed.map((value: unknown, index) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new Error(`SYNC_MAPPINGS[${index}] must be an object`);
+		}
+		const entry = value as Record<string, unknown>;
+		const mapping: SyncMapping = {
+			name: optionalString(entry, "name", index) ?? `mapping-${index + 1}`,
+			driveId: requiredString(entry, "driveId", index),
+			folderId: optionalString(entry, "folderId", index),
+			databaseId: requiredString(entry, "databaseId", index),
+			impersonateUser: optionalString(entry, "impersonateUser", index) ?? env.GOOGLE_IMPERSONATE_USER,
+			folderRootPageId: optionalString(entry, "folderRootPageId", index),
+			filter: parseSyncFilter(entry.filter, `SYNC_MAPPINGS[${index}].filter`) ?? defaultFilter,
+		};
+		if (names.has(mapping.name)) {
+			throw new Error(`SYNC_MAPPINGS has more than one mapping named "${mapping.name}"`);
+		}
+		names.add(mapping.name);
+		// Notion IDs work with or without dashes
+		const databaseKey = mapping.databaseId.replace(/-/g, "").toLowerCase();
+		const other = databases.get(databaseKey);
+		if (other !== undefined) {
+			throw new Error(`SYNC_MAPPINGS "${other}" and "${mapping.name}" sync into the same database; each mapping needs its own`);
+		}
+		databases.set(databaseKey, mapping.name);
+		return mapping;
+	});
+}
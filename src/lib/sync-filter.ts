@@ -0,0 +1,122 @@
+/**
+ * Include/exclude rules deciding which docs and folders of a mapping sync.
+ * Exclusions are checked while crawling, so excluded folders are never listed.
+ */
+
+export interface SyncFilter {
+	/** Globs on the doc's path; when set, only docs matching one of them sync. */
+	include?: string[];
+	/** Globs on folder and doc paths to skip. */
+	exclude?: string[];
+	/** Folders whose subtrees are skipped. */
+	excludeFolderIds?: string[];
+	/** Doc title prefixes to skip, e.g. "[DRAFT]". */
+	excludeTitlePrefixes?: string[];
+}
+
+export interface PathFilter {
+	/** Whether to skip a folder and everything under it; `path` ends with the folder's own name. */
+	excludesFolder(folderId: string, path: string[]): boolean;
+	/** Whether a doc named `name` in `folderPath` syncs. */
+	includesDoc(name: string, folderPath: string[]): boolean;
+}
+
+/**
+ * Compile a glob: `*` and `?` match within one path segment, `**` across
+ * segments. Case-insensitive, like Drive's own search.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*" && glob[i + 1] === "*") {
+			// "**/" also matches no folder at all
+			const slash = glob[i + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Whether any pattern matches the path. Patterns without a "/" match any
+ * single folder or file name; others match the path from the mapping's root.
+ * A match on a folder applies to everything under it.
+ */
+function matchesAny(patterns: Array<{ regex: RegExp; anySegment: boolean }>, path: string[]): boolean {
+	return patterns.some(({ regex, anySegment }) =>
+		anySegment
+			? path.some((segment) => regex.test(segment))
+			: path.some((_, i) => regex.test(path.slice(0, i + 1).join("/")))
+	);
+}
+
+function compile(globs: string[] = []): Array<{ regex: RegExp; anySegment: boolean }> {
+	return globs.map((glob) => ({ regex: globToRegExp(glob.replace(/^\/+|\/+$/g, "")), anySegment: !glob.includes("/") }));
+}
+
+export function createPathFilter(filter: SyncFilter = {}): PathFilter {
+	const include = compile(filter.include);
+	const exclude = compile(filter.exclude);
+	const excludedFolderIds = new Set(filter.excludeFolderIds);
+	const titlePrefixes = (filter.excludeTitlePrefixes ?? []).map((prefix) => prefix.toLowerCase());
+
+	return {
+		excludesFolder(folderId, path) {
+			return excludedFolderIds.has(folderId) || matchesAny(exclude, path);
+		},
+
+		includesDoc(name, folderPath) {
+			const path = [...folderPath, name];
+			const title = name.trimStart().toLowerCase();
+			if (titlePrefixes.some((prefix) => title.startsWith(prefix))) return false;
+			if (matchesAny(exclude, path)) return false;
+			return include.length === 0 || matchesAny(include, path);
+		},
+	};
+}
+
+/** Stable short fingerprint of a filter, empty when nothing is filtered. */
+export function filterFingerprint(filter: SyncFilter = {}): string {
+	const rules = [filter.include, filter.exclude, filter.excludeFolderIds, filter.excludeTitlePrefixes];
+	if (rules.every((rule) => !rule?.length)) return "";
+	// FNV-1a
+	let hash = 0x811c9dc5;
+	for (const char of JSON.stringify(rules)) {
+		hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Validate a filter read from JSON, e.g. SYNC_FILTER or a mapping's "filter".
+ * `label` names the setting in error messages.
+ */
+export function parseSyncFilter(value: unknown, label: string): SyncFilter | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	if (typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`${label} must be an object`);
+	}
+	const entry = value as Record<string, unknown>;
+	const filter: SyncFilter = {};
+	for (const key of ["include", "exclude", "excludeFolderIds", "excludeTitlePrefixes"] as const) {
+		const rule = entry[key];
+		if (rule === undefined) continue;
+		if (!Array.isArray(rule) || rule.some((item) => typeof item !== "string" || item === "")) {
+			throw new Error(`${label}.${key} must be an array of non-empty strings`);
+		}
+		filter[key] = rule as string[];
+	}
+	const unknown = Object.keys(entry).filter((key) => !(key in filter) && entry[key] !== undefined);
+	if (unknown.length > 0) {
+		throw new Error(`${label} has unknown rule(s): ${unknown.join(", ")}`);
+	}
+	return filter;
+}
@@ -0,0 +1,216 @@
+/**
+ * Durable Object that owns sync run state: a lock so only one run lists and
+ * enqueues docs at a time, a checkpoint of each mapping's listing so an
+ * interrupted run resumes where it stopped, per-doc claims so two queue
+ * consumers never upsert the same doc at once, and progress counters.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { GoogleDocInfo, ShortcutRecord } from "./lib/drive-traversal";
+
+/** A run whose producer has not checked in for this long is considered interrupted. */
+const RUN_LEASE_MS = 10 * 60 * 1000;
+/** How long a consumer may hold a doc before another consumer may take it over. */
+const DOC_CLAIM_MS = 5 * 60 * 1000;
+/** Docs per storage value, keeping listings of large drives under the value size limit. */
+const DOCS_PER_CHUNK = 500;
+
+export interface MappingCheckpoint {
+	mode: "full" | "incremental";
+	/** "listed" once the listing is stored; "done" once its docs are enqueued and removals handled. */
+	stage: "listed" | "done";
+	/** Docs listed; the first `enqueued` of them are on the queue. */
+	total: number;
+	enqueued: number;
+	/** Docs the consumer finished, and those it gave up on. */
+	processed: number;
+	failed: number;
+	removed: number;
+	/** Removals held back by the safety limit. */
+	refused: number;
+	removedIds: string[];
+	nextToken: string;
+}
+
+export interface SyncRun {
+	id: string;
+	startedAt: string;
+	/** Last time the producer checked in, in epoch milliseconds. */
+	heartbeatAt: number;
+	/** Set once the producer has gone through every mapping. */
+	finishedAt?: string;
+	mappings: Record<string, MappingCheckpoint>;
+}
+
+export type BeginResult =
+	| { status: "started" | "resumed"; run: SyncRun }
+	/** Another run holds the lock. */
+	| { status: "busy"; run: SyncRun };
+
+function docsPrefix(runId: string, mapping: string): string {
+	return `docs:${runId}:${mapping}:`;
+}
+
+function shortcutsKey(runId: string, mapping: string): string {
+	return `shortcuts:${runId}:${mapping}`;
+}
+
+function claimKey(mapping: string, docId: string): string {
+	return `claim:${mapping}:${docId}`;
+}
+
+export class SyncCoordinator extends DurableObject<Env> {
+	/**
+	 * Take the run lock. Resumes the previous run when its producer stopped
+	 * checking in before finishing; reports "busy" while it is still active.
+	 */
+	async begin(): Promise<BeginResult> {
+		const run = await this.ctx.storage.get<SyncRun>("run");
+		if (run && !run.finishedAt) {
+			if (Date.now() - run.heartbeatAt < RUN_LEASE_MS) {
+				return { status: "busy", run };
+			}
+			run.heartbeatAt = Date.now();
+			await this.ctx.storage.put("run", run);
+			return { status: "resumed", run };
+		}
+
+		const next: SyncRun = {
+			id: crypto.randomUUID(),
+			startedAt: new Date().toISOString(),
+			heartbeatAt: Date.now(),
+			mappings: {},
+		};
+		await this.ctx.storage.put("run", next);
+		return { status: "started", run: next };
+	}
+
+	/**
+	 * Renew the run's lease while the producer lists a large drive, so the
+	 * next run does not resume it in parallel. Throws once the lock is lost.
+	 */
+	async heartbeat(runId: string): Promise<void> {
+		const run = await this.activeRun(runId);
+		await this.ctx.storage.put("run", run);
+	}
+
+	/** Store a mapping's listing so a resumed run can enqueue the rest of it without listing again. */
+	async saveListing(
+		runId: string,
+		mapping: string,
+		listing: {
+			mode: MappingCheckpoint["mode"];
+			docs: GoogleDocInfo[];
+			shortcuts: ShortcutRecord[];
+			removedIds: string[];
+			nextToken: string;
+		}
+	): Promise<void> {
+		const run = await this.activeRun(runId);
+		await this.ctx.storage.put(shortcutsKey(runId, mapping), listing.shortcuts);
+		for (let i = 0; i < listing.docs.length; i += DOCS_PER_CHUNK) {
+			await this.ctx.storage.put(
+				`${docsPrefix(runId, mapping)}${String(i / DOCS_PER_CHUNK).padStart(6, "0")}`,
+				listing.docs.slice(i, i + DOCS_PER_CHUNK)
+			);
+		}
+		run.mappings[mapping] = {
+			mode: listing.mode,
+			stage: "listed",
+			total: listing.docs.length,
+			enqueued: 0,
+			processed: 0,
+			failed: 0,
+			removed: 0,
+			refused: 0,
+			removedIds: listing.removedIds,
+			nextToken: listing.nextToken,
+		};
+		await this.ctx.storage.put("run", run);
+	}
+
+	/** The docs stored by saveListing, in listing order. */
+	async listedDocs(runId: string, mapping: string): Promise<GoogleDocInfo[]> {
+		const chunks = await this.ctx.storage.list<GoogleDocInfo[]>({ prefix: docsPrefix(runId, mapping) });
+		return [...chunks.values()].flat();
+	}
+
+	/** The shortcuts stored by saveListing. */
+	async listedShortcuts(runId: string, mapping: string): Promise<ShortcutRecord[]> {
+		return (await this.ctx.storage.get<ShortcutRecord[]>(shortcutsKey(runId, mapping))) ?? [];
+	}
+
+	async markEnqueued(runId: string, mapping: string, enqueued: number): Promise<void> {
+		const run = await this.activeRun(runId);
+		run.mappings[mapping].enqueued = enqueued;
+		await this.ctx.storage.put("run", run);
+	}
+
+	async finishMapping(runId: string, mapping: string, removed: number, refused = 0): Promise<void> {
+		const run = await this.activeRun(runId);
+		run.mappings[mapping].stage = "done";
+		run.mappings[mapping].removed = removed;
+		run.mappings[mapping].refused = refused;
+		await this.ctx.storage.put("run", run);
+		await this.deleteListing(runId, mapping);
+	}
+
+	/** Release the run lock. Progress counters stay until the next run starts. */
+	async finish(runId: string): Promise<void> {
+		const run = await this.activeRun(runId);
+		run.finishedAt = new Date().toISOString();
+		await this.ctx.storage.put("run", run);
+		for (const mapping of Object.keys(run.mappings)) {
+			await this.deleteListing(runId, mapping);
+		}
+	}
+
+	/** Claim a doc for upserting; false while another consumer holds it. */
+	async claimDoc(mapping: string, docId: string): Promise<boolean> {
+		const key = claimKey(mapping, docId);
+		const expiresAt = await this.ctx.storage.get<number>(key);
+		if (expiresAt !== undefined && expiresAt > Date.now()) return false;
+		await this.ctx.storage.put(key, Date.now() + DOC_CLAIM_MS);
+		return true;
+	}
+
+	/**
+	 * Release a claimed doc, counting it towards the progress of the run that
+	 * enqueued it: "processed" and "failed" are final, "retry" is not counted.
+	 */
+	async releaseDoc(
+		runId: string,
+		mapping: string,
+		docId: string,
+		outcome: "processed" | "failed" | "retry"
+	): Promise<void> {
+		await this.ctx.storage.delete(claimKey(mapping, docId));
+		if (outcome === "retry") return;
+
+		const run = await this.ctx.storage.get<SyncRun>("run");
+		const checkpoint = run?.id === runId ? run.mappings[mapping] : undefined;
+		if (!run || !checkpoint) return;
+		checkpoint[outcome]++;
+		await this.ctx.storage.put("run", run);
+	}
+
+	/** The current or last run, without the stored listings. */
+	async progress(): Promise<SyncRun | null> {
+		return (await this.ctx.storage.get<SyncRun>("run")) ?? null;
+	}
+
+	/** The stored run if `runId` still holds the lock, with its lease renewed. */
+	private async activeRun(runId: string): Promise<SyncRun> {
+		const run = await this.ctx.storage.get<SyncRun>("run");
+		if (!run || run.id !== runId || run.finishedAt) {
+			throw new Error(`Sync run ${runId} no longer holds the lock`);
+		}
+		run.heartbeatAt = Date.now();
+		return run;
+	}
+
+	private async deleteListing(runId: string, mapping: string): Promise<void> {
+		const chunks = await this.ctx.storage.list({ prefix: docsPrefix(runId, mapping) });
+		await this.ctx.storage.delete([...chunks.keys(), shortcutsKey(runId, mapping)]);
+	}
+}
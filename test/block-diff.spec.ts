@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { blockSignature, diffBlocks } from '../src/lib/block-diff';
+import type { ExistingBlock } from '../src/lib/block-diff';
+import { markdownToNotionBlocks } from '../src/lib/markdown-to-blocks';
+
+/** Shape new blocks the way Notion returns them from the block children endpoint. */
+function asExisting(markdown: string): ExistingBlock[] {
+	return markdownToNotionBlocks(markdown).map((block, i) => ({
+		...JSON.parse(JSON.stringify(block)),
+		id: `block-${i}`,
+		has_children: false,
+	}));
+}
+
+describe('blockSignature', () => {
+	it('ignores annotation defaults and how Notion splits text runs', () => {
+		const [sent] = markdownToNotionBlocks('Hello world');
+		const returned: ExistingBlock = {
+			id: 'a',
+			type: 'paragraph',
+			paragraph: {
+				color: 'default',
+				rich_text: [
+					{ type: 'text', text: { content: 'Hello ', link: null }, annotations: { bold: false, color: 'default' }, plain_text: 'Hello ' },
+					{ type: 'text', text: { content: 'world', link: null }, annotations: {}, plain_text: 'world' },
+				],
+			},
+		};
+		expect(blockSignature(returned)).toBe(blockSignature(sent));
+	});
+
+	it('matches attached image files to their upload by file name', () => {
+		const sent = { type: 'image' as const, image: { type: 'file_upload' as const, file_upload: { id: 'up-1' } } };
+		const returned: ExistingBlock = {
+			id: 'a',
+			type: 'image',
+			image: { type: 'file', file: { url: 'https://files.example.com/ws/uuid/image-0123456789ab.png?X-Amz-Signature=x' }, caption: [] },
+		};
+		const uploadNames = new Map([['up-1', 'image-0123456789ab.png']]);
+		expect(blockSignature(returned, uploadNames)).toBe(blockSignature(sent, uploadNames));
+	});
+
+	it('ignores the links added to footnote markers', () => {
+		const [sent] = markdownToNotionBlocks('Claim[^a].\n\n[^a]: Source.\n');
+		const returned: ExistingBlock = {
+			id: 'a',
+			type: 'paragraph',
+			paragraph: {
+				rich_text: [
+					{ type: 'text', text: { content: 'Claim', link: null } },
+					{ type: 'text', text: { content: '¹', link: { url: 'https://www.notion.so/page#footnote' } } },
+					{ type: 'text', text: { content: '.', link: null } },
+				],
+			},
+		};
+		expect(blockSignature(returned)).toBe(blockSignature(sent));
+	});
+});
+
+describe('diffBlocks', () => {
+	it('keeps unchanged blocks and updates an edited one in place', () => {
+		const existing = asExisting('One\n\nTwo\n\nThree\n');
+		const ops = diffBlocks(existing, markdownToNotionBlocks('One\n\nTwo edited\n\nThree\n'));
+		expect(ops.map((op) => op.op)).toEqual(['keep', 'update', 'keep']);
+	});
+
+	it('inserts new blocks and deletes removed ones in document order', () => {
+		const existing = asExisting('One\n\nTwo\n\nThree\n');
+		const ops = diffBlocks(existing, markdownToNotionBlocks('One\n\nThree\n\n- Four\n'));
+		expect(ops.map((op) => op.op)).toEqual(['keep', 'delete', 'keep', 'insert']);
+	});
+
+	it('replaces rather than updates a block whose type changed', () => {
+		const existing = asExisting('# Title\n');
+		const ops = diffBlocks(existing, markdownToNotionBlocks('## Title\n'));
+		expect(ops.map((op) => op.op)).toEqual(['delete', 'insert']);
+	});
+
+	it('keeps the unchanged start and end of a long page around an edit', () => {
+		const paragraphs = Array.from({ length: 5000 }, (_, i) => `Paragraph ${i}`);
+		const existing = asExisting(paragraphs.join('\n\n'));
+		paragraphs[2500] = 'Paragraph 2500 edited';
+		paragraphs.splice(4000, 0, 'New paragraph');
+
+		const ops = diffBlocks(existing, markdownToNotionBlocks(paragraphs.join('\n\n')));
+		const changes = ops.flatMap((op, i) => (op.op === 'keep' ? [] : [[i, op.op]]));
+		expect(changes).toEqual([
+			[2500, 'update'],
+			[4000, 'insert'],
+		]);
+		expect(ops).toHaveLength(5001);
+	});
+});
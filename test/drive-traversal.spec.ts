@@ -0,0 +1,233 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { listAllGoogleDocs, listChangedGoogleDocs } from '../src/lib/drive-traversal';
+import { createPathFilter } from '../src/lib/sync-filter';
+
+const DOC_MIME = 'application/vnd.google-apps.document';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+const SHORTCUT_MIME = 'application/vnd.google-apps.shortcut';
+
+interface TestFile {
+	id: string;
+	name: string;
+	mimeType: string;
+	parents: string[];
+	modifiedTime?: string;
+	shortcutDetails?: { targetId: string; targetMimeType: string };
+}
+
+/** Files by ID; a file's children are the files whose parents include it. */
+const files: TestFile[] = [
+	{ id: 'eng', name: 'Engineering', mimeType: FOLDER_MIME, parents: ['drive-1'] },
+	{ id: 'spec', name: 'Spec', mimeType: DOC_MIME, parents: ['eng'] },
+	{ id: 'draft', name: '[DRAFT] Roadmap', mimeType: DOC_MIME, parents: ['eng'] },
+	// Points back at an ancestor folder
+	{
+		id: 'loop',
+		name: 'Engineering',
+		mimeType: SHORTCUT_MIME,
+		parents: ['eng'],
+		shortcutDetails: { targetId: 'eng', targetMimeType: FOLDER_MIME },
+	},
+	// A folder in another drive, with a shortcut back into this one
+	{
+		id: 'link',
+		name: 'Design',
+		mimeType: SHORTCUT_MIME,
+		parents: ['drive-1'],
+		shortcutDetails: { targetId: 'design', targetMimeType: FOLDER_MIME },
+	},
+	{ id: 'design', name: 'Design', mimeType: FOLDER_MIME, parents: ['drive-2'] },
+	{ id: 'mockups', name: 'Mockups', mimeType: DOC_MIME, parents: ['design'] },
+	{
+		id: 'back',
+		name: 'Spec',
+		mimeType: SHORTCUT_MIME,
+		parents: ['design'],
+		shortcutDetails: { targetId: 'spec', targetMimeType: DOC_MIME },
+	},
+	{
+		id: 'gone',
+		name: 'Secret',
+		mimeType: SHORTCUT_MIME,
+		parents: ['drive-1'],
+		shortcutDetails: { targetId: 'secret', targetMimeType: DOC_MIME },
+	},
+];
+
+/** A fake Drive API serving `tree` from files.list and files.get, and `changes` as one page of changes. */
+function mockDrive(tree: TestFile[], changes: unknown[] = []) {
+	const withTimes = tree.map((file) => ({ modifiedTime: '2024-01-01T00:00:00Z', ...file }));
+	return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+		const url = new URL(String(input));
+		const id = url.pathname.split('/').pop()!;
+		if (id === 'changes') {
+			return Response.json({ changes, newStartPageToken: 'token-2' });
+		}
+		if (id === 'files') {
+			const parent = /^'(.+)' in parents/.exec(url.searchParams.get('q')!)![1];
+			return Response.json({ files: withTimes.filter((file) => file.parents.includes(parent)) });
+		}
+		const file = withTimes.find((candidate) => candidate.id === id);
+		return file ? Response.json(file) : new Response('not found', { status: 404 });
+	});
+}
+
+function listedFolders(fetchMock: ReturnType<typeof mockDrive>): Array<string | null> {
+	return fetchMock.mock.calls
+		.map(([input]) => new URL(String(input)))
+		.filter((url) => url.pathname.endsWith('/files'))
+		.map((url) => url.searchParams.get('q'));
+}
+
+describe('listAllGoogleDocs', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('follows shortcuts into other drives without looping', async () => {
+		const fetchMock = mockDrive(files);
+
+		const { docs, shortcuts } = await listAllGoogleDocs('token', 'drive-1');
+		expect(docs.map((doc) => [doc.id, doc.folderPath, doc.shortcutId])).toEqual([
+			['spec', ['Engineering'], undefined],
+			['draft', ['Engineering'], undefined],
+			['mockups', ['Design'], 'link'],
+		]);
+		expect(shortcuts.map((shortcut) => shortcut.id)).toEqual(['loop', 'link', 'gone']);
+
+		const listings = fetchMock.mock.calls
+			.map(([input]) => new URL(String(input)))
+			.filter((url) => url.pathname.endsWith('/files'));
+		expect(listings.map((url) => [url.searchParams.get('corpora'), url.searchParams.get('q')])).toEqual([
+			['drive', "'drive-1' in parents and trashed = false"],
+			['drive', "'eng' in parents and trashed = false"],
+			['allDrives', "'design' in parents and trashed = false"],
+		]);
+	});
+
+	it('skips excluded docs and never lists excluded folders', async () => {
+		const fetchMock = mockDrive(files);
+
+		const filter = createPathFilter({ exclude: ['design'], excludeTitlePrefixes: ['[DRAFT]'] });
+		const { docs } = await listAllGoogleDocs('token', 'drive-1', { filter });
+		expect(docs.map((doc) => doc.id)).toEqual(['spec']);
+		expect(listedFolders(fetchMock)).not.toContain("'design' in parents and trashed = false");
+	});
+
+	it('reports progress after each listed page of files', async () => {
+		const fetchMock = mockDrive(files);
+		const onProgress = vi.fn(async () => {});
+
+		await listAllGoogleDocs('token', 'drive-1', { onProgress });
+		expect(onProgress).toHaveBeenCalledTimes(listedFolders(fetchMock).length);
+	});
+});
+
+describe('listChangedGoogleDocs', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	/** A mapping rooted at Engineering, with shortcuts to a doc elsewhere in the drive and to a folder in another drive. */
+	const tree: TestFile[] = [
+		{ id: 'eng', name: 'Engineering', mimeType: FOLDER_MIME, parents: ['drive-1'] },
+		{ id: 'plans', name: 'Plans', mimeType: FOLDER_MIME, parents: ['eng'] },
+		{ id: 'spec', name: 'Spec', mimeType: DOC_MIME, parents: ['eng'] },
+		{ id: 'finance', name: 'Finance', mimeType: FOLDER_MIME, parents: ['drive-1'] },
+		{ id: 'budget', name: 'Budget', mimeType: DOC_MIME, parents: ['finance'] },
+		{
+			id: 'budget-link',
+			name: 'Budget',
+			mimeType: SHORTCUT_MIME,
+			parents: ['plans'],
+			shortcutDetails: { targetId: 'budget', targetMimeType: DOC_MIME },
+		},
+		{
+			id: 'design-link',
+			name: 'Design',
+			mimeType: SHORTCUT_MIME,
+			parents: ['plans'],
+			shortcutDetails: { targetId: 'design', targetMimeType: FOLDER_MIME },
+		},
+		{ id: 'design', name: 'Design', mimeType: FOLDER_MIME, parents: ['drive-2'] },
+		{ id: 'mockups', name: 'Mockups', mimeType: DOC_MIME, parents: ['design'] },
+	];
+
+	async function previousState() {
+		mockDrive(tree);
+		const listing = await listAllGoogleDocs('token', 'drive-1', { rootFolderId: 'eng' });
+		vi.restoreAllMocks();
+		return {
+			shortcuts: listing.shortcuts,
+			docIds: listing.docs.filter((doc) => doc.shortcutId).map((doc) => doc.id),
+		};
+	}
+
+	it('keeps docs listed through shortcuts at the shortcut path and lists their targets again', async () => {
+		const previous = await previousState();
+		expect(previous.docIds).toEqual(['budget', 'mockups']);
+
+		// The budget doc's own parent is outside the mapping's root
+		const budget = tree.find((file) => file.id === 'budget');
+		const fetchMock = mockDrive(tree, [{ fileId: 'budget', file: budget }]);
+		const changes = await listChangedGoogleDocs('token', 'drive-1', 'token-1', { rootFolderId: 'eng', previous });
+
+		expect(changes.removedIds).toEqual([]);
+		expect(changes.docs.map((doc) => [doc.id, doc.folderPath, doc.shortcutId])).toEqual([
+			['budget', ['Plans'], 'budget-link'],
+			['mockups', ['Plans', 'Design'], 'design-link'],
+		]);
+		expect(changes.shortcuts).toEqual(previous.shortcuts);
+		expect(listedFolders(fetchMock)).toEqual(["'design' in parents and trashed = false"]);
+	});
+
+	it('removes the docs of a removed shortcut', async () => {
+		const previous = await previousState();
+
+		mockDrive(tree, [{ fileId: 'design-link', removed: true }]);
+		const changes = await listChangedGoogleDocs('token', 'drive-1', 'token-1', { rootFolderId: 'eng', previous });
+
+		expect(changes.removedIds).toEqual(['mockups']);
+		expect(changes.docs.map((doc) => doc.id)).toEqual(['budget']);
+		expect(changes.shortcuts.map((shortcut) => shortcut.id)).toEqual(['budget-link']);
+	});
+
+	it('lists the docs of a folder moved into the root at their new path', async () => {
+		const research = { id: 'research', name: 'Research', mimeType: FOLDER_MIME, parents: ['plans'] };
+		const paper = { id: 'paper', name: 'Paper', mimeType: DOC_MIME, parents: ['research'] };
+		const fetchMock = mockDrive([...tree, research, paper], [{ fileId: 'research', file: research }]);
+		const changes = await listChangedGoogleDocs('token', 'drive-1', 'token-1', { rootFolderId: 'eng' });
+
+		expect(changes.docs.map((doc) => [doc.id, doc.folderPath])).toEqual([['paper', ['Plans', 'Research']]]);
+		expect(changes.removedIds).toEqual([]);
+		expect(listedFolders(fetchMock)).toEqual(["'research' in parents and trashed = false"]);
+	});
+
+	it('removes docs moved out of the root and ignores folders moved out', async () => {
+		const moved = { id: 'spec', name: 'Spec', mimeType: DOC_MIME, parents: ['finance'] };
+		const movedFolder = { id: 'plans', name: 'Plans', mimeType: FOLDER_MIME, parents: ['finance'] };
+		const fetchMock = mockDrive(
+			tree.map((file) => (file.id === 'spec' ? moved : file.id === 'plans' ? movedFolder : file)),
+			[
+				{ fileId: 'spec', file: moved },
+				{ fileId: 'plans', file: movedFolder },
+			]
+		);
+		const changes = await listChangedGoogleDocs('token', 'drive-1', 'token-1', { rootFolderId: 'eng' });
+
+		expect(changes.removedIds).toEqual(['spec']);
+		expect(changes.docs).toEqual([]);
+		expect(listedFolders(fetchMock)).toEqual([]);
+	});
+
+	it('records new shortcuts and lists their targets', async () => {
+		const shortcut = tree.find((file) => file.id === 'design-link');
+		mockDrive(tree, [{ fileId: 'design-link', file: shortcut }]);
+		const changes = await listChangedGoogleDocs('token', 'drive-1', 'token-1', { rootFolderId: 'eng' });
+
+		expect(changes.docs.map((doc) => [doc.id, doc.folderPath])).toEqual([['mockups', ['Plans', 'Design']]]);
+		expect(changes.shortcuts).toEqual([
+			{ id: 'design-link', targetId: 'design', targetMimeType: FOLDER_MIME, folderPath: ['Plans'] },
+		]);
+	});
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createApiClient, parseRetryAfter, PermanentHttpError, RetryableHttpError } from '../src/lib/http';
+
+function client() {
+	return createApiClient({
+		requestsPerSecond: 1000,
+		maxRetries: 2,
+		baseBackoffMs: 1,
+		isRetryable: (status) => status === 429 || status >= 500,
+	});
+}
+
+describe('createApiClient', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('retries retryable responses until one succeeds', async () => {
+		const fetchMock = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+			.mockResolvedValueOnce(new Response('oops', { status: 503 }))
+			.mockResolvedValueOnce(new Response('ok'));
+
+		const response = await client().fetch('https://api.example.com/items');
+		expect(await response.text()).toBe('ok');
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('returns permanent failures without retrying', async () => {
+		const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('bad request', { status: 400 }));
+
+		const response = await client().fetch('https://api.example.com/items');
+		expect(response.status).toBe(400);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives up after maxRetries and returns the last response', async () => {
+		const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('down', { status: 500 }));
+
+		const response = await client().fetch('https://api.example.com/items');
+		expect(response.status).toBe(500);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('retries writes only on rate limits unless they are idempotent', async () => {
+		const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('down', { status: 503 }));
+		const api = client();
+
+		expect((await api.fetch('https://api.example.com/items', { method: 'POST' })).status).toBe(503);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		await api.fetch('https://api.example.com/items/1', { method: 'PATCH' }, { idempotent: true });
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+
+		fetchMock.mockReset();
+		fetchMock
+			.mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+			.mockResolvedValueOnce(new Response('created'));
+		expect(await (await api.fetch('https://api.example.com/items', { method: 'POST' })).text()).toBe('created');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not resend a write after a network error', async () => {
+		const fetchMock = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('connection reset'));
+
+		await expect(client().fetch('https://api.example.com/items', { method: 'POST' })).rejects.toBeInstanceOf(RetryableHttpError);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		await expect(client().fetch('https://api.example.com/items')).rejects.toThrow('connection reset');
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+	});
+
+	it('leaves Retry-After waits over the cap to the caller', async () => {
+		const fetchMock = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValue(new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+
+		const response = await client().fetch('https://api.example.com/items');
+		expect(response.status).toBe(429);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('types errors by whether they are retryable', () => {
+		const api = client();
+		const retryable = api.error('List failed', new Response(null, { status: 429, headers: { 'Retry-After': '2' } }), 'limited');
+		const permanent = api.error('List failed', new Response(null, { status: 404 }), 'missing');
+
+		expect(retryable).toBeInstanceOf(RetryableHttpError);
+		expect((retryable as RetryableHttpError).retryAfterMs).toBe(2000);
+		expect(retryable.message).toBe('List failed: 429 limited');
+		expect(permanent).toBeInstanceOf(PermanentHttpError);
+		expect(permanent.status).toBe(404);
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('accepts seconds and HTTP dates', () => {
+		const now = Date.parse('2024-01-01T00:00:00Z');
+		expect(parseRetryAfter('3', now)).toBe(3000);
+		expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+	});
+});
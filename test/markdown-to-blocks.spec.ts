@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import { conversionHash, footnotesStart, markdownToNotionBlocks } from '../src/lib/markdown-to-blocks';
+import type { NotionRichText } from '../src/lib/markdown-to-blocks';
+
+/** Plain text of a rich text array, with equations as their expression. */
+function textOf(richText: NotionRichText[] | undefined): string {
+	return (richText ?? []).map((r) => (r.type === 'text' ? r.text.content : r.equation.expression)).join('');
+}
+
+describe('markdownToNotionBlocks', () => {
+	describe('tables', () => {
+		it('emits a table block with one table_row per row', () => {
+			const blocks = markdownToNotionBlocks('| Plan | Price |\n| --- | --- |\n| Pro | **$10** |\n');
+			expect(blocks).toHaveLength(1);
+			const [table] = blocks;
+			if (table.type !== 'table') throw new Error(`expected table, got ${table.type}`);
+			expect(table.table.table_width).toBe(2);
+			expect(table.table.has_column_header).toBe(true);
+			expect(table.table.has_row_header).toBe(false);
+			expect(table.table.children).toHaveLength(2);
+
+			const row = table.table.children[1];
+			if (row.type !== 'table_row') throw new Error(`expected table_row, got ${row.type}`);
+			expect(row.table_row.cells[0].map((r) => textOf([r]))).toEqual(['Pro']);
+			expect(row.table_row.cells[1][0].annotations?.bold).toBe(true);
+		});
+
+		it('treats an empty top-left header cell as a row header column', () => {
+			const [table] = markdownToNotionBlocks('| | Free | Pro |\n| --- | --- | --- |\n| Seats | 1 | 10 |\n');
+			if (table.type !== 'table') throw new Error(`expected table, got ${table.type}`);
+			expect(table.table.has_row_header).toBe(true);
+		});
+
+		it('pads short rows to the table width', () => {
+			const [table] = markdownToNotionBlocks('| a | b | c |\n| - | - | - |\n| 1 |\n');
+			if (table.type !== 'table') throw new Error(`expected table, got ${table.type}`);
+			const row = table.table.children[1];
+			if (row.type !== 'table_row') throw new Error(`expected table_row, got ${row.type}`);
+			expect(row.table_row.cells).toHaveLength(3);
+			expect(row.table_row.cells[2]).toEqual([]);
+		});
+	});
+
+	describe('lists', () => {
+		it('nests sub-lists under their parent item', () => {
+			const [item] = markdownToNotionBlocks('1. Step one\n   - detail a\n   - detail b\n');
+			if (item.type !== 'numbered_list_item') throw new Error(`expected numbered_list_item, got ${item.type}`);
+			expect(textOf(item.numbered_list_item.rich_text)).toBe('Step one');
+			expect(item.numbered_list_item.children?.map((c) => c.type)).toEqual(['bulleted_list_item', 'bulleted_list_item']);
+		});
+
+		it('keeps later paragraphs and code blocks as children', () => {
+			const [item] = markdownToNotionBlocks('- First\n\n  Second paragraph\n\n  ```\n  run it\n  ```\n');
+			if (item.type !== 'bulleted_list_item') throw new Error(`expected bulleted_list_item, got ${item.type}`);
+			expect(item.bulleted_list_item.children?.map((c) => c.type)).toEqual(['paragraph', 'code']);
+		});
+
+		it('converts task list items into to_do blocks, including nested ones', () => {
+			const [todo] = markdownToNotionBlocks('- [x] Ship it\n  - [ ] Write notes\n');
+			if (todo.type !== 'to_do') throw new Error(`expected to_do, got ${todo.type}`);
+			expect(todo.to_do.checked).toBe(true);
+			expect(textOf(todo.to_do.rich_text)).toBe('Ship it');
+			const nested = todo.to_do.children?.[0];
+			if (nested?.type !== 'to_do') throw new Error(`expected nested to_do, got ${nested?.type}`);
+			expect(nested.to_do.checked).toBe(false);
+		});
+
+		it('omits children on flat items', () => {
+			const [item] = markdownToNotionBlocks('- only\n');
+			if (item.type !== 'bulleted_list_item') throw new Error(`expected bulleted_list_item, got ${item.type}`);
+			expect(item.bulleted_list_item.children).toBeUndefined();
+		});
+	});
+
+	describe('images', () => {
+		it('resolves reference-style images from Drive exports', () => {
+			const blocks = markdownToNotionBlocks('Intro ![diagram][image1] outro\n\n[image1]: <data:image/png;base64,iVBORw0KGgo=>\n');
+			expect(blocks.map((b) => b.type)).toEqual(['paragraph', 'image', 'paragraph']);
+			const image = blocks[1];
+			if (image.type !== 'image') throw new Error(`expected image, got ${image.type}`);
+			expect(image.image).toEqual({
+				type: 'external',
+				external: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+				caption: [expect.objectContaining({ text: { content: 'diagram', link: null } })],
+			});
+		});
+
+		it('does not leave empty paragraphs around standalone images', () => {
+			const blocks = markdownToNotionBlocks('![](https://example.com/a.png)\n');
+			expect(blocks.map((b) => b.type)).toEqual(['image']);
+		});
+
+		it('drops images whose reference has no definition', () => {
+			const blocks = markdownToNotionBlocks('![][missing]\n');
+			expect(blocks.map((b) => b.type)).toEqual(['paragraph']);
+		});
+	});
+
+	describe('size limits', () => {
+		it('splits text longer than 2000 characters into several rich text items', () => {
+			const [block] = markdownToNotionBlocks('a'.repeat(4500));
+			if (block.type !== 'paragraph') throw new Error(`expected paragraph, got ${block.type}`);
+			expect(block.paragraph.rich_text.map((r) => textOf([r]).length)).toEqual([2000, 2000, 500]);
+		});
+
+		it('splits a block with more than 100 rich text items into consecutive blocks', () => {
+			const code = 'x'.repeat(2000 * 150);
+			const blocks = markdownToNotionBlocks('```js\n' + code + '\n```\n');
+			expect(blocks.map((b) => b.type)).toEqual(['code', 'code']);
+			const [first, second] = blocks;
+			if (first.type !== 'code' || second.type !== 'code') throw new Error('expected code blocks');
+			expect(first.code.rich_text).toHaveLength(100);
+			expect(second.code.rich_text).toHaveLength(50);
+			expect(second.code.language).toBe(first.code.language);
+		});
+	});
+
+	describe('code blocks', () => {
+		it.each([
+			['js', 'javascript'],
+			['TS', 'typescript'],
+			['sh', 'shell'],
+			['yml', 'yaml'],
+			['rust', 'rust'],
+			['brainfuck', 'plain text'],
+			['', 'plain text'],
+		])('maps fence language %j to %j', (lang, expected) => {
+			const [block] = markdownToNotionBlocks('```' + lang + '\ncode\n```\n');
+			if (block.type !== 'code') throw new Error(`expected code, got ${block.type}`);
+			expect(block.code.language).toBe(expected);
+		});
+
+		it('keeps fence metadata as the caption', () => {
+			const [titled] = markdownToNotionBlocks('```ts title="worker.ts"\ncode\n```\n');
+			const [raw] = markdownToNotionBlocks('```ts highlight lines\ncode\n```\n');
+			if (titled.type !== 'code' || raw.type !== 'code') throw new Error('expected code blocks');
+			expect(textOf(titled.code.caption)).toBe('worker.ts');
+			expect(textOf(raw.code.caption)).toBe('highlight lines');
+		});
+	});
+
+	describe('footnotes', () => {
+		it('renders references as superscript markers and collects definitions at the end', () => {
+			const blocks = markdownToNotionBlocks('Claim[^b] and another[^a].\n\n[^a]: First source.\n[^b]: Second source.\n');
+			expect(blocks.map((b) => b.type)).toEqual(['paragraph', 'divider', 'heading_3', 'numbered_list_item', 'numbered_list_item']);
+
+			const [paragraph, , , first, second] = blocks;
+			if (paragraph.type !== 'paragraph') throw new Error(`expected paragraph, got ${paragraph.type}`);
+			expect(textOf(paragraph.paragraph.rich_text)).toBe('Claim¹ and another².');
+
+			if (first.type !== 'numbered_list_item' || second.type !== 'numbered_list_item') throw new Error('expected list items');
+			expect(textOf(first.numbered_list_item.rich_text)).toBe('Second source.');
+			expect(textOf(second.numbered_list_item.rich_text)).toBe('First source.');
+		});
+
+		it('adds no section when there are no footnotes', () => {
+			expect(markdownToNotionBlocks('Plain text.\n').map((b) => b.type)).toEqual(['paragraph']);
+		});
+
+		it('finds where the footnotes start', () => {
+			expect(footnotesStart(markdownToNotionBlocks('1. One\n\nClaim[^a].\n\n[^a]: Source.\n'))).toBe(4);
+			expect(footnotesStart(markdownToNotionBlocks('---\n\n### Footnotes\n\nText\n'))).toBe(-1);
+		});
+	});
+
+	describe('headings', () => {
+		const doc = '# Title\n\nIntro\n\n## Section\n\nBody\n\n#### Detail\n\nFine print\n\n## Next\n';
+
+		it('renders H4–H6 as bold paragraphs by default', () => {
+			const blocks = markdownToNotionBlocks('#### Detail\n');
+			const [block] = blocks;
+			if (block.type !== 'paragraph') throw new Error(`expected paragraph, got ${block.type}`);
+			expect(block.paragraph.rich_text[0].annotations?.bold).toBe(true);
+		});
+
+		it('keeps the document flat unless toggle headings are enabled', () => {
+			expect(markdownToNotionBlocks(doc).map((b) => b.type)).toEqual([
+				'heading_1',
+				'paragraph',
+				'heading_2',
+				'paragraph',
+				'paragraph',
+				'paragraph',
+				'heading_2',
+			]);
+		});
+
+		it('nests section content under toggleable H1/H2 and deep-heading toggles', () => {
+			const blocks = markdownToNotionBlocks(doc, { toggleHeadings: true, deepHeadings: 'toggle' });
+			expect(blocks.map((b) => b.type)).toEqual(['heading_1']);
+			const [title] = blocks;
+			if (title.type !== 'heading_1') throw new Error(`expected heading_1, got ${title.type}`);
+			expect(title.heading_1.is_toggleable).toBe(true);
+			expect(title.heading_1.children?.map((b) => b.type)).toEqual(['paragraph', 'heading_2', 'heading_2']);
+
+			const section = title.heading_1.children?.[1];
+			if (section?.type !== 'heading_2') throw new Error(`expected heading_2, got ${section?.type}`);
+			expect(section.heading_2.children?.map((b) => b.type)).toEqual(['paragraph', 'toggle']);
+			const detail = section.heading_2.children?.[1];
+			if (detail?.type !== 'toggle') throw new Error(`expected toggle, got ${detail?.type}`);
+			expect(detail.toggle.children?.map((b) => b.type)).toEqual(['paragraph']);
+		});
+	});
+
+	describe('blockquotes', () => {
+		it.each([
+			['> [!TIP]\n> Use the cache.\n', '💡', 'green_background'],
+			['> **Note:** Use the cache.\n', 'ℹ️', 'blue_background'],
+			['> ⚠️ Use the cache.\n', '⚠️', 'yellow_background'],
+			['> Warning: Use the cache.\n', '⚠️', 'yellow_background'],
+		])('turns %j into a callout', (markdown, emoji, color) => {
+			const [block] = markdownToNotionBlocks(markdown);
+			if (block.type !== 'callout') throw new Error(`expected callout, got ${block.type}`);
+			expect(block.callout.icon).toEqual({ type: 'emoji', emoji });
+			expect(block.callout.color).toBe(color);
+			expect(textOf(block.callout.rich_text)).toBe('Use the cache.');
+		});
+
+		it('keeps nested lists and code under a plain quote', () => {
+			const [block] = markdownToNotionBlocks('> First line\n>\n> Second line\n>\n> - item\n>\n> ```sh\n> ls\n> ```\n');
+			if (block.type !== 'quote') throw new Error(`expected quote, got ${block.type}`);
+			expect(textOf(block.quote.rich_text)).toBe('First line\nSecond line');
+			expect(block.quote.children?.map((b) => b.type)).toEqual(['bulleted_list_item', 'code']);
+		});
+	});
+
+	describe('math', () => {
+		it('turns display math into equation blocks', () => {
+			const [block] = markdownToNotionBlocks('$$\nE = mc^2\n$$\n');
+			expect(block).toEqual({ type: 'equation', equation: { expression: 'E = mc^2' } });
+		});
+
+		it('turns inline math into equation rich text', () => {
+			const [block] = markdownToNotionBlocks('Energy is $E = mc^2$ here.\n');
+			if (block.type !== 'paragraph') throw new Error(`expected paragraph, got ${block.type}`);
+			expect(block.paragraph.rich_text.map((r) => r.type)).toEqual(['text', 'equation', 'text']);
+			expect(block.paragraph.rich_text[1]).toMatchObject({ type: 'equation', equation: { expression: 'E = mc^2' } });
+		});
+
+		it('leaves dollar amounts as text', () => {
+			const [block] = markdownToNotionBlocks('Pro costs $10 and Team costs $20 per seat.\n');
+			if (block.type !== 'paragraph') throw new Error(`expected paragraph, got ${block.type}`);
+			expect(block.paragraph.rich_text.every((r) => r.type === 'text')).toBe(true);
+			expect(textOf(block.paragraph.rich_text)).toBe('Pro costs $10 and Team costs $20 per seat.');
+		});
+
+		it('does not close inline math before a digit or after a space', () => {
+			for (const markdown of ['Between $5 and $', 'From $x$5 on', 'Pay $ 5$ now']) {
+				const [block] = markdownToNotionBlocks(`${markdown}\n`);
+				if (block.type !== 'paragraph') throw new Error(`expected paragraph, got ${block.type}`);
+				expect(textOf(block.paragraph.rich_text)).toBe(markdown);
+				expect(block.paragraph.rich_text.some((r) => r.type === 'equation')).toBe(false);
+			}
+		});
+	});
+});
+
+describe('conversionHash', () => {
+	it('changes with the markdown and the conversion options only', async () => {
+		const hash = await conversionHash('# Title\n', { toggleHeadings: false });
+		expect(await conversionHash('# Title\n', {})).toBe(hash);
+		expect(await conversionHash('# Title!\n', {})).not.toBe(hash);
+		expect(await conversionHash('# Title\n', { toggleHeadings: true })).not.toBe(hash);
+	});
+});
@@ -0,0 +1,564 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { markdownToNotionBlocks, MAX_TEXT_LENGTH } from '../src/lib/markdown-to-blocks';
+import type { NotionPage } from '../src/lib/notion';
+import { createPage, getDatabaseSchema, syncFolderTree, syncSheetDatabases, updatePage } from '../src/lib/notion';
+
+interface FakeBlock {
+	id: string;
+	type: string;
+	has_children: boolean;
+	[key: string]: unknown;
+}
+
+const IMAGE_BYTES = 'iVBORw0KGgo=';
+const IMAGE_MARKDOWN = `Intro\n\n![](data:image/png;base64,${IMAGE_BYTES})\n`;
+
+interface SentBlock {
+	type: string;
+	[key: string]: unknown;
+}
+
+function sentChildren(block: SentBlock): SentBlock[] {
+	return ((block[block.type] as { children?: SentBlock[] } | undefined)?.children ?? []) as SentBlock[];
+}
+
+/** Which of Notion's append limits a request breaks, if any: nesting, children per array, blocks or bytes per request. */
+function limitViolation(body: string, blocks: SentBlock[]): string | null {
+	if (body.length > 500_000) return 'body too large';
+	let count = 0;
+	const check = (list: SentBlock[], level: number): string | null => {
+		if (list.length > 100) return 'more than 100 children';
+		for (const block of list) {
+			count++;
+			const nested = sentChildren(block);
+			if (nested.length > 0 && level >= 2) return 'nested more than two levels';
+			const violation = check(nested, level + 1);
+			if (violation) return violation;
+		}
+		return null;
+	};
+	return check(blocks, 0) ?? (count > 1000 ? 'more than 1000 blocks' : null);
+}
+
+/**
+ * A fake Notion API keeping block children per parent, including the
+ * child_page and child_database blocks of pages and databases created under
+ * a page, and the rows of each database. Appends that attach a file upload
+ * listed in `rejectedUploads` fail like an expired upload does.
+ */
+function mockNotion(children: Record<string, FakeBlock[]> = {}, rejectedUploads: string[] = []) {
+	let nextId = 1;
+	const databases: Record<string, { properties: Record<string, { type: string }>; rows: NotionPage[] }> = {};
+	const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const url = new URL(String(input));
+		const method = init?.method ?? 'GET';
+		const path = url.pathname.replace(/^\/v1/, '');
+		const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+
+		if (method === 'POST' && path === '/databases') {
+			const id = `database-${nextId++}`;
+			const properties = Object.fromEntries(
+				Object.entries(body.properties).map(([name, type]) => [name, { type: Object.keys(type as object)[0] }])
+			);
+			databases[id] = { properties, rows: [] };
+			const title = body.title[0].text.content;
+			(children[body.parent.page_id] ??= []).push({ id, type: 'child_database', has_children: false, child_database: { title } });
+			return Response.json({ id });
+		}
+		const databaseId = /^\/databases\/([^/]+)/.exec(path)?.[1];
+		if (databaseId && databases[databaseId]) {
+			const { properties, rows } = databases[databaseId];
+			if (method === 'GET') return Response.json({ properties });
+			return Response.json({ results: rows, has_more: false, next_cursor: null });
+		}
+		if (method === 'POST' && path === '/pages' && databases[body.parent.database_id]) {
+			const row = { id: `row-${nextId++}`, properties: body.properties };
+			databases[body.parent.database_id].rows.push(row);
+			return Response.json(row);
+		}
+		if (method === 'PATCH' && path.startsWith('/pages/row-')) {
+			for (const database of Object.values(databases)) {
+				const row = database.rows.find((candidate) => candidate.id === path.split('/').pop());
+				if (!row) continue;
+				if (body.archived) database.rows.splice(database.rows.indexOf(row), 1);
+				else Object.assign(row.properties, body.properties);
+			}
+			return Response.json({});
+		}
+		if (method === 'POST' && path === '/pages') {
+			const id = `page-${nextId++}`;
+			// Pages created under a page show up as its child_page blocks
+			if (body.parent.page_id) {
+				const title = body.properties.title.title[0].text.content;
+				(children[body.parent.page_id] ??= []).push({ id, type: 'child_page', has_children: false, child_page: { title } });
+			}
+			return Response.json({ id });
+		}
+		if (method === 'PATCH' && path.startsWith('/pages/')) return Response.json({});
+		if (method === 'POST' && path === '/file_uploads') return Response.json({ id: `upload-${nextId++}` });
+		if (method === 'POST' && path.endsWith('/send')) return Response.json({});
+
+		const childrenOf = /^\/blocks\/([^/]+)\/children$/.exec(path)?.[1];
+		if (childrenOf && method === 'GET') {
+			return Response.json({ results: children[childrenOf] ?? [], has_more: false, next_cursor: null });
+		}
+		if (childrenOf && method === 'PATCH') {
+			const sent = body.children as Array<{ type: string; [key: string]: unknown }>;
+			const uploadIds = sent.map((block) => (block.image as { file_upload?: { id: string } } | undefined)?.file_upload?.id);
+			if (uploadIds.some((id) => id && rejectedUploads.includes(id))) {
+				return Response.json({ code: 'validation_error', message: 'File upload expired' }, { status: 400 });
+			}
+			const violation = limitViolation(init?.body as string, sent);
+			if (violation) return Response.json({ code: 'validation_error', message: violation }, { status: 400 });
+			// Nested children become blocks of their own, listed under their parent
+			const create = ({ type, ...content }: { type: string; [key: string]: unknown }): FakeBlock => {
+				const id = `block-${nextId++}`;
+				const { children: nested, ...fields } = (content[type] ?? {}) as { children?: Array<{ type: string }> };
+				if (nested?.length) children[id] = nested.map(create);
+				return { id, type, has_children: Boolean(nested?.length), ...content, [type]: fields };
+			};
+			const created = sent.map(create);
+			const list = (children[childrenOf] ??= []);
+			const at = body.after ? list.findIndex((block) => block.id === body.after) + 1 : list.length;
+			list.splice(at, 0, ...created);
+			return Response.json({ results: created });
+		}
+		const blockId = /^\/blocks\/([^/]+)$/.exec(path)?.[1];
+		if (blockId && method === 'PATCH') {
+			const block = Object.values(children)
+				.flat()
+				.find((candidate) => candidate.id === blockId);
+			if (!block) return new Response('not found', { status: 404 });
+			Object.assign(block, body);
+			return Response.json(block);
+		}
+		if (method === 'DELETE') {
+			const id = path.split('/').pop();
+			for (const list of Object.values(children)) {
+				const at = list.findIndex((block) => block.id === id);
+				if (at !== -1) list.splice(at, 1);
+			}
+			return Response.json({});
+		}
+		return new Response(`unexpected ${method} ${path}`, { status: 404 });
+	});
+	return { fetchMock, children, databases };
+}
+
+/** Blocks converted from `markdown`, shaped the way Notion returns them, with IDs `<prefix>-<index>`. */
+function existingBlocks(markdown: string, prefix: string): FakeBlock[] {
+	return markdownToNotionBlocks(markdown).map((block, i) => ({
+		...JSON.parse(JSON.stringify(block)),
+		id: `${prefix}-${i}`,
+		has_children: false,
+	}));
+}
+
+function textOf(block: FakeBlock): string {
+	const content = block[block.type] as { rich_text: Array<{ text: { content: string } }> };
+	return content.rich_text.map((item) => item.text.content).join('');
+}
+
+/** Method and path of each request, e.g. "PATCH /blocks/old-0". */
+function requests(fetchMock: ReturnType<typeof mockNotion>['fetchMock']): string[] {
+	return fetchMock.mock.calls.map(([input, init]) => `${init?.method ?? 'GET'} ${new URL(String(input)).pathname.replace(/^\/v1/, '')}`);
+}
+
+async function imageCacheKey(): Promise<string> {
+	const bytes = Uint8Array.from(atob(IMAGE_BYTES), (c) => c.charCodeAt(0));
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return `image:${[...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function uploadsSent(fetchMock: ReturnType<typeof mockNotion>['fetchMock']): number {
+	return fetchMock.mock.calls.filter(([input, init]) => init?.method === 'POST' && String(input).endsWith('/file_uploads')).length;
+}
+
+const page = { title: 'Doc', driveFileId: 'file-1', driveModified: '2024-01-01T00:00:00Z' };
+
+describe('image uploads', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('caches an upload only once it is attached', async () => {
+		const { fetchMock } = mockNotion({}, ['upload-1']);
+		const key = await imageCacheKey();
+
+		await expect(
+			createPage('key', 'db', { ...page, markdown: IMAGE_MARKDOWN, imageCache: env.SYNC_STATE })
+		).rejects.toThrow('Notion append blocks failed: 400');
+		expect(uploadsSent(fetchMock)).toBe(1);
+		expect(await env.SYNC_STATE.get(key)).toBeNull();
+
+		vi.restoreAllMocks();
+		const { children } = mockNotion();
+		const pageId = await createPage('key', 'db', { ...page, markdown: IMAGE_MARKDOWN, imageCache: env.SYNC_STATE });
+		const uploadId = await env.SYNC_STATE.get(key);
+		expect(uploadId).toMatch(/^upload-/);
+		expect(children[pageId][1].image).toMatchObject({ type: 'file_upload', file_upload: { id: uploadId } });
+	});
+
+	it('uploads again when Notion rejects a cached upload', async () => {
+		const key = await imageCacheKey();
+		await env.SYNC_STATE.put(key, 'expired-upload');
+		const { fetchMock, children } = mockNotion({ 'page-1': [] }, ['expired-upload']);
+
+		await updatePage('key', 'page-1', { markdown: IMAGE_MARKDOWN, driveModified: page.driveModified, imageCache: env.SYNC_STATE });
+
+		expect(uploadsSent(fetchMock)).toBe(1);
+		const uploadId = await env.SYNC_STATE.get(key);
+		expect(uploadId).not.toBe('expired-upload');
+		expect(children['page-1'].map((block) => block.type)).toEqual(['paragraph', 'image']);
+		expect(children['page-1'][1].image).toMatchObject({ file_upload: { id: uploadId } });
+	});
+
+	it('reuses a cached upload without uploading', async () => {
+		const key = await imageCacheKey();
+		await env.SYNC_STATE.put(key, 'cached-upload');
+		const { fetchMock, children } = mockNotion();
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: IMAGE_MARKDOWN, imageCache: env.SYNC_STATE });
+
+		expect(uploadsSent(fetchMock)).toBe(0);
+		expect(children[pageId][1].image).toMatchObject({ file_upload: { id: 'cached-upload' } });
+	});
+});
+
+describe('updatePage', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const update = (markdown: string) => updatePage('key', 'page-1', { markdown, driveModified: page.driveModified });
+
+	it('fits ready-made blocks to the rich text limits', async () => {
+		const { children } = mockNotion({ 'page-1': [] });
+		const long = 'x'.repeat(MAX_TEXT_LENGTH * 2 + 10);
+
+		await updatePage('key', 'page-1', {
+			markdown: '',
+			blocks: [{ type: 'paragraph', paragraph: { rich_text: [{ type: 'text', text: { content: long, link: null } }] } }],
+			driveModified: page.driveModified,
+		});
+
+		const [paragraph] = children['page-1'] as Array<FakeBlock & { paragraph: { rich_text: Array<{ text: { content: string } }> } }>;
+		expect(paragraph.paragraph.rich_text.map((item) => item.text.content.length)).toEqual([MAX_TEXT_LENGTH, MAX_TEXT_LENGTH, 10]);
+	});
+
+	it('updates only the edited block', async () => {
+		const { fetchMock, children } = mockNotion({ 'page-1': existingBlocks('One\n\nTwo\n\nThree\n', 'old') });
+
+		await update('One\n\nTwo edited\n\nThree\n');
+
+		expect(children['page-1'].map(textOf)).toEqual(['One', 'Two edited', 'Three']);
+		expect(requests(fetchMock)).toEqual(['GET /blocks/page-1/children', 'PATCH /blocks/old-1', 'PATCH /pages/page-1']);
+	});
+
+	it('turns the first block into a new leading block instead of rewriting the page', async () => {
+		const { fetchMock, children } = mockNotion({ 'page-1': existingBlocks('One\n\nTwo\n', 'old') });
+
+		await update('Zero\n\nOne\n\nTwo\n');
+
+		expect(children['page-1'].map(textOf)).toEqual(['Zero', 'One', 'Two']);
+		expect(children['page-1'].map((block) => block.id)).toEqual(['old-0', expect.stringMatching(/^block-/), 'old-1']);
+		expect(requests(fetchMock).filter((request) => request.startsWith('DELETE'))).toEqual([]);
+		const append = fetchMock.mock.calls.find(([input, init]) => init?.method === 'PATCH' && String(input).endsWith('/children'));
+		expect(JSON.parse(String(append?.[1]?.body))).toMatchObject({ after: 'old-0' });
+	});
+
+	it('recreates only the first block when a new leading block cannot take over it', async () => {
+		const { fetchMock, children } = mockNotion({ 'page-1': existingBlocks('One\n\nTwo\n\nThree\n', 'old') });
+
+		await update('# Title\n\nOne\n\nTwo\n\nThree\n');
+
+		expect(children['page-1'].map((block) => block.type)).toEqual(['heading_1', 'paragraph', 'paragraph', 'paragraph']);
+		expect(children['page-1'].map(textOf)).toEqual(['Title', 'One', 'Two', 'Three']);
+		expect(children['page-1'].map((block) => block.id).slice(2)).toEqual(['old-1', 'old-2']);
+		expect(requests(fetchMock).filter((request) => request.startsWith('DELETE'))).toEqual(['DELETE /blocks/old-0']);
+	});
+});
+
+describe('database properties', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('reads which optional properties a database has', async () => {
+		vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+			Response.json({
+				properties: {
+					'Folder Path': { type: 'select' },
+					'Slide Count': { type: 'number' },
+					'Source URL': { type: 'rich_text' },
+				},
+			})
+		);
+
+		expect(await getDatabaseSchema('key', 'db')).toEqual({ folderPathType: 'select', slideCount: true, sourceUrl: false });
+	});
+
+	it('writes content properties on a new page', async () => {
+		const { fetchMock } = mockNotion();
+
+		await createPage('key', 'db', {
+			...page,
+			markdown: '',
+			blocks: [],
+			properties: { slideCount: 12, sourceUrl: 'https://docs.google.com/presentation/d/deck/edit' },
+		});
+
+		const [, init] = fetchMock.mock.calls.find(([input]) => String(input).endsWith('/pages'))!;
+		expect(JSON.parse(String(init?.body)).properties).toMatchObject({
+			'Slide Count': { number: 12 },
+			'Source URL': { url: 'https://docs.google.com/presentation/d/deck/edit' },
+		});
+	});
+});
+
+/** A database page in the folder `path`, e.g. "Eng / Plans". */
+function databasePage(id: string, path: string): NotionPage {
+	return { id, properties: { 'Folder Path': { type: 'rich_text', rich_text: path ? [{ plain_text: path }] : [] } } };
+}
+
+/** Each child of `parentId` as "title/" for a folder page or "-> page" for a link. */
+function folderContents(children: Record<string, FakeBlock[]>, parentId: string): string[] {
+	return (children[parentId] ?? []).map((block) =>
+		block.type === 'child_page'
+			? `${(block.child_page as { title: string }).title}/`
+			: `-> ${(block.link_to_page as { page_id: string }).page_id}`
+	);
+}
+
+function childPageId(children: Record<string, FakeBlock[]>, parentId: string, title: string): string {
+	return children[parentId].find((block) => block.type === 'child_page' && (block.child_page as { title: string }).title === title)!.id;
+}
+
+describe('syncFolderTree', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('nests a page per folder and links each doc from its folder', async () => {
+		const { children } = mockNotion({ root: [] });
+
+		await syncFolderTree('key', 'root', [
+			databasePage('doc-spec', 'Eng / Plans'),
+			databasePage('doc-readme', 'Eng'),
+			databasePage('doc-top', ''),
+		]);
+
+		expect(folderContents(children, 'root')).toEqual(['Eng/', '-> doc-top']);
+		const eng = childPageId(children, 'root', 'Eng');
+		expect(folderContents(children, eng)).toEqual(['Plans/', '-> doc-readme']);
+		expect(folderContents(children, childPageId(children, eng, 'Plans'))).toEqual(['-> doc-spec']);
+	});
+
+	it('moves links to the new folder and archives folder pages left empty', async () => {
+		const link = (id: string, pageId: string): FakeBlock => ({
+			id,
+			type: 'link_to_page',
+			has_children: false,
+			link_to_page: { page_id: pageId },
+		});
+		const folder = (id: string, title: string): FakeBlock => ({ id, type: 'child_page', has_children: true, child_page: { title } });
+		const { fetchMock, children } = mockNotion({
+			root: [folder('eng', 'Eng'), folder('old', 'Old')],
+			eng: [link('link-spec', 'doc-spec')],
+			old: [link('link-notes', 'doc-notes')],
+		});
+
+		await syncFolderTree('key', 'root', [databasePage('doc-spec', 'Eng'), databasePage('doc-notes', 'New')]);
+
+		expect(folderContents(children, 'root')).toEqual(['Eng/', 'New/']);
+		expect(folderContents(children, 'eng')).toEqual(['-> doc-spec']);
+		expect(folderContents(children, childPageId(children, 'root', 'New'))).toEqual(['-> doc-notes']);
+		expect(requests(fetchMock).filter((request) => request.startsWith('DELETE'))).toEqual([
+			'DELETE /blocks/link-notes',
+			'DELETE /blocks/old',
+		]);
+	});
+});
+
+describe('footnotes', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const markdown = 'Claim[^a] and more[^b].\n\n[^a]: First source.\n[^b]: Second source.\n';
+	const markerLinks = (block: FakeBlock) =>
+		(block.paragraph as { rich_text: Array<{ text: { content: string; link: { url: string } | null } }> }).rich_text
+			.filter((item) => item.text.link)
+			.map((item) => [item.text.content, item.text.link?.url]);
+
+	it('links each marker to its footnote once the page is written', async () => {
+		const { children } = mockNotion();
+
+		const pageId = await createPage('key', 'db', { ...page, markdown });
+
+		const [paragraph, , , first, second] = children[pageId];
+		const url = (block: FakeBlock) => `https://www.notion.so/${pageId.replace(/-/g, '')}#${block.id.replace(/-/g, '')}`;
+		expect(markerLinks(paragraph)).toEqual([
+			['¹', url(first)],
+			['²', url(second)],
+		]);
+	});
+
+	it('keeps linked markers as they are when the page is synced again', async () => {
+		const { fetchMock } = mockNotion();
+		const pageId = await createPage('key', 'db', { ...page, markdown });
+		fetchMock.mockClear();
+
+		await updatePage('key', pageId, { markdown, driveModified: page.driveModified });
+
+		expect(requests(fetchMock)).toEqual([`GET /blocks/${pageId}/children`, `GET /blocks/${pageId}/children`, `PATCH /pages/${pageId}`]);
+	});
+});
+
+describe('syncSheetDatabases', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const tab = (rows: string[][]) => ({ title: 'Budget', rows: [['Item', 'Cost'], ...rows] });
+	const rowValues = (rows: NotionPage[]) =>
+		rows.map((row) => (row.properties as unknown as { Item: { title: Array<{ text: { content: string } }> } }).Item.title[0].text.content);
+
+	it('writes only the changed rows of an existing database', async () => {
+		const { fetchMock, children, databases } = mockNotion({ 'page-1': [] });
+		await syncSheetDatabases('key', 'page-1', [
+			tab([
+				['Rent', '100'],
+				['Food', '50'],
+				['Travel', '20'],
+			]),
+		]);
+		const [database] = children['page-1'];
+		fetchMock.mockClear();
+
+		await syncSheetDatabases('key', 'page-1', [
+			tab([
+				['Rent', '100'],
+				['Food', '60'],
+				['Travel', '20'],
+				['Books', '5'],
+			]),
+		]);
+
+		expect(children['page-1'].map((block) => block.id)).toEqual([database.id]);
+		expect(rowValues(databases[database.id].rows)).toEqual(['Rent', 'Food', 'Travel', 'Books']);
+		expect(requests(fetchMock).filter((request) => !request.startsWith('GET') && !request.endsWith('/query'))).toEqual([
+			expect.stringMatching(/^PATCH \/pages\/row-/),
+			'POST /pages',
+		]);
+	});
+
+	it('recreates a database whose columns changed and deletes those without a tab', async () => {
+		const { children } = mockNotion({ 'page-1': [] });
+		await syncSheetDatabases('key', 'page-1', [tab([['Rent', '100']]), { title: 'Old', rows: [['Name'], ['x']] }]);
+		const [budget] = children['page-1'];
+
+		await syncSheetDatabases('key', 'page-1', [tab([['Rent', 'monthly']])]);
+
+		expect(children['page-1']).toHaveLength(1);
+		expect(children['page-1'][0]).toMatchObject({ type: 'child_database', child_database: { title: 'Budget' } });
+		expect(children['page-1'][0].id).not.toBe(budget.id);
+	});
+
+	it('leaves child databases alone when the page content is updated', async () => {
+		const { children } = mockNotion({ 'page-1': existingBlocks('Intro\n', 'old') });
+		await syncSheetDatabases('key', 'page-1', [tab([['Rent', '100']])]);
+
+		await updatePage('key', 'page-1', { markdown: 'Intro edited\n', driveModified: page.driveModified });
+
+		expect(children['page-1'].map((block) => block.type)).toEqual(['paragraph', 'child_database']);
+	});
+});
+
+/** The blocks under `parentId` as text (or type, for blocks without text), with their children nested. */
+function outline(children: Record<string, FakeBlock[]>, parentId: string): unknown[] {
+	return (children[parentId] ?? []).map((block) => {
+		const label = (block[block.type] as { rich_text?: unknown }).rich_text ? textOf(block) : block.type;
+		return children[block.id]?.length ? [label, outline(children, block.id)] : label;
+	});
+}
+
+describe('appending blocks', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	/** The ID of the block anywhere on the fake whose text is `text`. */
+	const blockId = (children: Record<string, FakeBlock[]>, text: string) =>
+		Object.values(children)
+			.flat()
+			.find((block) => (block[block.type] as { rich_text?: unknown }).rich_text && textOf(block) === text)!.id;
+
+	it('appends list levels past the nesting limit to the blocks created for them', async () => {
+		const { fetchMock, children } = mockNotion();
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: '- one\n  - two\n    - three\n      - four\n' });
+
+		expect(outline(children, pageId)).toEqual([['one', [['two', [['three', ['four']]]]]]]);
+		expect(requests(fetchMock)).toEqual([
+			'POST /pages',
+			`PATCH /blocks/${pageId}/children`,
+			`GET /blocks/${blockId(children, 'one')}/children`,
+			`GET /blocks/${blockId(children, 'two')}/children`,
+			`PATCH /blocks/${blockId(children, 'three')}/children`,
+		]);
+	});
+
+	it('appends list children over the per-request limit to their created parent', async () => {
+		const { fetchMock, children } = mockNotion();
+		const items = Array.from({ length: 150 }, (_, i) => `  - item ${i}`).join('\n');
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: `- list\n${items}\n` });
+
+		const list = blockId(children, 'list');
+		expect(children[list].map(textOf)).toEqual(Array.from({ length: 150 }, (_, i) => `item ${i}`));
+		expect(requests(fetchMock)).toEqual(['POST /pages', `PATCH /blocks/${pageId}/children`, `PATCH /blocks/${list}/children`]);
+	});
+
+	it('appends a table at the deepest level together with its rows', async () => {
+		const { fetchMock, children } = mockNotion();
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: '- one\n  - two\n\n    | x | y |\n    |---|---|\n    | 1 | 2 |\n' });
+
+		expect(outline(children, pageId)).toEqual([['one', [['two', [['table', ['table_row', 'table_row']]]]]]]);
+		const two = blockId(children, 'two');
+		expect(requests(fetchMock)).toContain(`PATCH /blocks/${two}/children`);
+		const append = fetchMock.mock.calls.find(([input]) => String(input).endsWith(`/blocks/${two}/children`));
+		expect(JSON.parse(String(append?.[1]?.body)).children[0].table.children).toHaveLength(2);
+	});
+
+	it('splits top-level blocks into batches under the payload size limit', async () => {
+		const { fetchMock, children } = mockNotion();
+		const paragraphs = Array.from({ length: 90 }, (_, i) => `${i} ${'x'.repeat(6000)}`);
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: paragraphs.join('\n\n') });
+
+		expect(children[pageId].map(textOf)).toEqual(paragraphs);
+		const appends = fetchMock.mock.calls.filter(([input]) => String(input).endsWith(`/blocks/${pageId}/children`));
+		expect(appends).toHaveLength(2);
+		for (const [, init] of appends) expect(String(init?.body).length).toBeLessThan(450_000);
+	});
+
+	it('sends fewer children of a block over the block count limit and appends the rest to it', async () => {
+		const { fetchMock, children } = mockNotion();
+		const items = Array.from({ length: 20 }, (_, i) =>
+			[`  - item ${i}`, ...Array.from({ length: 60 }, (_, j) => `    - item ${i}.${j}`)].join('\n')
+		);
+
+		const pageId = await createPage('key', 'db', { ...page, markdown: `- list\n${items.join('\n')}\n` });
+
+		const list = blockId(children, 'list');
+		expect(children[list].map(textOf)).toEqual(Array.from({ length: 20 }, (_, i) => `item ${i}`));
+		expect(children[blockId(children, 'item 19')]).toHaveLength(60);
+		expect(requests(fetchMock)).toEqual(['POST /pages', `PATCH /blocks/${pageId}/children`, `PATCH /blocks/${list}/children`]);
+		const sent = fetchMock.mock.calls.filter(([, init]) => init?.method === 'PATCH').map(([, init]) => JSON.parse(String(init?.body)));
+		expect(sent[0].children[0].bulleted_list_item.children).toHaveLength(10);
+		expect(sent[1].children).toHaveLength(10);
+	});
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { GoogleDocInfo } from '../src/lib/drive-traversal';
+import { findRemovedPages } from '../src/lib/removed-pages';
+
+function page(driveFileId: string) {
+	return { id: `page-${driveFileId}`, properties: { 'Drive File ID': { type: 'rich_text', rich_text: [{ plain_text: driveFileId }] } } };
+}
+
+/** A page already marked removed through REMOVED_STATUS. */
+function removedPage(driveFileId: string) {
+	const { id, properties } = page(driveFileId);
+	return { id, properties: { ...properties, Status: { type: 'select', select: { name: 'Removed' } } } };
+}
+
+function doc(id: string): GoogleDocInfo {
+	return { id, name: id, mimeType: 'application/vnd.google-apps.document', modifiedTime: '2024-01-01T00:00:00Z', folderPath: [] };
+}
+
+/** A fake database query serving `pages`, filtered by Drive File ID when the query has a filter. */
+function mockDatabase(pages: Array<ReturnType<typeof page>>) {
+	return vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input, init) => {
+		const body = JSON.parse(String(init?.body));
+		const id = body.filter?.rich_text.equals;
+		const results = id ? pages.filter((candidate) => candidate.properties['Drive File ID'].rich_text[0].plain_text === id) : pages;
+		return Response.json({ results, has_more: false, next_cursor: null });
+	});
+}
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => `doc-${i}`);
+
+describe('findRemovedPages', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('removes pages whose doc a full listing no longer has', async () => {
+		mockDatabase(ids(10).map(page));
+
+		const result = await findRemovedPages('key', 'db', { mode: 'full', docs: ids(8).map(doc), removedIds: [] });
+		expect(result.pages.map((removed) => removed.id)).toEqual(['page-doc-8', 'page-doc-9']);
+		expect(result.refused).toBe(0);
+	});
+
+	it('refuses removals over the limit and reports how many', async () => {
+		mockDatabase(ids(40).map(page));
+
+		const listing = { mode: 'full' as const, docs: ids(29).map(doc), removedIds: [] };
+		expect(await findRemovedPages('key', 'db', listing, { maxRemovedFraction: '0.25' })).toEqual({ pages: [], refused: 11 });
+		// floor(40 * 0.25) = 10 removals are allowed
+		const withinLimit = await findRemovedPages('key', 'db', { ...listing, docs: ids(30).map(doc) }, { maxRemovedFraction: '0.25' });
+		expect(withinLimit.pages).toHaveLength(10);
+	});
+
+	it('always allows a few removals in small databases', async () => {
+		mockDatabase(ids(6).map(page));
+
+		const result = await findRemovedPages(
+			'key',
+			'db',
+			{ mode: 'full', docs: ids(1).map(doc), removedIds: [] },
+			{ maxRemovedFraction: '0' }
+		);
+		expect(result).toMatchObject({ refused: 0 });
+		expect(result.pages).toHaveLength(5);
+	});
+
+	it('refuses to empty the database after an empty listing', async () => {
+		mockDatabase(ids(3).map(page));
+
+		expect(await findRemovedPages('key', 'db', { mode: 'full', docs: [], removedIds: [] })).toEqual({ pages: [], refused: 3 });
+	});
+
+	it('looks up only the removals an incremental listing reports', async () => {
+		const fetchMock = mockDatabase(ids(40).map(page));
+
+		const result = await findRemovedPages('key', 'db', { mode: 'incremental', docs: [], removedIds: ['doc-3', 'unknown'] });
+		expect(result).toEqual({ pages: [page('doc-3')], refused: 0 });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('leaves pages already at the removed status out of removals and the limit', async () => {
+		const removed = ids(20).map(removedPage);
+		const live = ['live-1', 'live-2', 'gone'].map(page);
+		mockDatabase([...removed, ...live]);
+
+		const settings = { maxRemovedFraction: '0', removedStatus: 'Removed' };
+		const listing = { mode: 'full' as const, docs: ['live-1', 'live-2'].map(doc), removedIds: [] };
+		expect(await findRemovedPages('key', 'db', listing, settings)).toEqual({ pages: [page('gone')], refused: 0 });
+		const incremental = await findRemovedPages('key', 'db', { mode: 'incremental', docs: [], removedIds: ['doc-1', 'gone'] }, settings);
+		expect(incremental.pages).toEqual([page('gone')]);
+	});
+});
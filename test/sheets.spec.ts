@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_TEXT_LENGTH } from '../src/lib/markdown-to-blocks';
+import { inferColumns, parseCsv, rowProperties, sheetTabsToBlocks } from '../src/lib/sheets';
+
+describe('parseCsv', () => {
+	it('handles quoted fields, doubled quotes and CRLF line ends', () => {
+		const csv = 'Name,Notes\r\n"Smith, Jane","Said ""hi""\non two lines"\r\nBob,\r\n';
+		expect(parseCsv(csv)).toEqual([
+			['Name', 'Notes'],
+			['Smith, Jane', 'Said "hi"\non two lines'],
+			['Bob', ''],
+		]);
+	});
+
+	it('drops trailing empty rows', () => {
+		expect(parseCsv('a,b\n1,2\n,\n,\n')).toEqual([
+			['a', 'b'],
+			['1', '2'],
+		]);
+	});
+});
+
+describe('inferColumns', () => {
+	it('types columns from their values and dedupes names', () => {
+		const rows = [
+			['Task', 'Points', 'Due', 'Done', 'Points', ''],
+			['Write docs', '1,200', '3/7/2024', 'TRUE', '2', 'x'],
+			['Review', '3.5', '2024-03-08', 'false', 'n/a', ''],
+		];
+		expect(inferColumns(rows)).toEqual([
+			{ name: 'Task', type: 'title' },
+			{ name: 'Points', type: 'number' },
+			{ name: 'Due', type: 'date' },
+			{ name: 'Done', type: 'checkbox' },
+			{ name: 'Points (2)', type: 'rich_text' },
+			{ name: 'Column 6', type: 'rich_text' },
+		]);
+	});
+});
+
+describe('rowProperties', () => {
+	it('converts cells to typed property values', () => {
+		const columns = inferColumns([
+			['Task', 'Points', 'Due', 'Done'],
+			['Write docs', '1,200', '3/7/2024', 'TRUE'],
+		]);
+		expect(rowProperties(columns, ['Write docs', '1,200', '3/7/2024', 'TRUE'])).toEqual({
+			Task: { title: [{ type: 'text', text: { content: 'Write docs', link: null } }] },
+			Points: { number: 1200 },
+			Due: { date: { start: '2024-03-07' } },
+			Done: { checkbox: true },
+		});
+		expect(rowProperties(columns, ['Empty'])).toMatchObject({
+			Points: { number: null },
+			Due: { date: null },
+			Done: { checkbox: false },
+		});
+	});
+
+	it('splits long text without breaking surrogate pairs', () => {
+		const long = `${'a'.repeat(MAX_TEXT_LENGTH - 1)}😀 and more`;
+		const { Notes } = rowProperties([{ name: 'Notes', type: 'rich_text' }], [long]) as {
+			Notes: { rich_text: { text: { content: string } }[] };
+		};
+		const contents = Notes.rich_text.map((item) => item.text.content);
+		expect(contents).toEqual(['a'.repeat(MAX_TEXT_LENGTH - 1), '😀 and more']);
+	});
+});
+
+describe('sheetTabsToBlocks', () => {
+	it('renders a heading and a padded table per tab', () => {
+		const blocks = sheetTabsToBlocks([
+			{ title: 'Budget', rows: [['Item', 'Cost'], ['Coffee']] },
+			{ title: 'Empty', rows: [] },
+		]);
+		expect(blocks.map((block) => block.type)).toEqual(['heading_2', 'table', 'heading_2']);
+		const table = blocks[1] as {
+			table: { table_width: number; has_column_header: boolean; children: { table_row: { cells: unknown[][] } }[] };
+		};
+		expect(table.table.table_width).toBe(2);
+		expect(table.table.has_column_header).toBe(true);
+		expect(table.table.children[1].table_row.cells).toEqual([[{ type: 'text', text: { content: 'Coffee', link: null } }], []]);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { SlidesTextContent } from '../src/lib/google-drive';
+import { presentationOutline, presentationUrl, slidesToBlocks } from '../src/lib/slides';
+
+function textBody(...paragraphs: Array<string | { bullet: string }>): SlidesTextContent {
+	return {
+		textElements: paragraphs.flatMap((paragraph) =>
+			typeof paragraph === 'string'
+				? [{ paragraphMarker: {} }, { textRun: { content: `${paragraph}\n` } }]
+				: [{ paragraphMarker: { bullet: {} } }, { textRun: { content: `${paragraph.bullet}\n` } }],
+		),
+	};
+}
+
+const presentation = {
+	presentationId: 'deck-1',
+	slides: [
+		{
+			objectId: 's1',
+			pageElements: [
+				{ objectId: 'body', shape: { placeholder: { type: 'BODY' }, text: textBody('Why now', { bullet: 'Churn is up' }) } },
+				{ objectId: 'title', shape: { placeholder: { type: 'TITLE' }, text: textBody('Q3 review') } },
+				{
+					objectId: 'group',
+					elementGroup: { children: [{ objectId: 'caption', shape: { text: textBody('Line one\u000bline two') } }] },
+				},
+			],
+			slideProperties: {
+				notesPage: {
+					objectId: 'n1',
+					notesProperties: { speakerNotesObjectId: 'notes' },
+					pageElements: [
+						{ objectId: 'thumb', shape: { text: textBody('Not the notes') } },
+						{ objectId: 'notes', shape: { text: textBody('Mention the survey') } },
+					],
+				},
+			},
+		},
+		{ objectId: 's2', pageElements: [{ objectId: 'empty', shape: { text: textBody('', 'Thanks!') } }] },
+	],
+};
+
+describe('presentationOutline', () => {
+	it('reads the title, body text and speaker notes of each slide', () => {
+		expect(presentationOutline(presentation)).toEqual([
+			{
+				title: 'Q3 review',
+				body: [
+					{ text: 'Why now', bullet: false },
+					{ text: 'Churn is up', bullet: true },
+					{ text: 'Line one\nline two', bullet: false },
+				],
+				notes: [{ text: 'Mention the survey', bullet: false }],
+			},
+			{ title: '', body: [{ text: 'Thanks!', bullet: false }], notes: [] },
+		]);
+	});
+});
+
+describe('slidesToBlocks', () => {
+	it('renders a header with the slide count and a section per slide', () => {
+		const blocks = slidesToBlocks(presentationOutline(presentation), presentationUrl('deck-1'));
+		expect(blocks.map((block) => block.type)).toEqual([
+			'paragraph',
+			'heading_2',
+			'paragraph',
+			'bulleted_list_item',
+			'paragraph',
+			'toggle',
+			'heading_2',
+			'paragraph',
+		]);
+		expect(blocks[0]).toEqual({
+			type: 'paragraph',
+			paragraph: {
+				rich_text: [
+					{ type: 'text', text: { content: '2 slides · ', link: null } },
+					{
+						type: 'text',
+						text: { content: 'Open in Google Slides', link: { url: 'https://docs.google.com/presentation/d/deck-1/edit' } },
+					},
+				],
+			},
+		});
+		expect(blocks[6]).toMatchObject({ heading_2: { rich_text: [{ text: { content: 'Slide 2' } }] } });
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseSyncMappings } from '../src/lib/sync-config';
+
+const baseEnv = {
+	SYNC_MAPPINGS: '',
+	GOOGLE_DRIVE_SHARED_DRIVE_ID: 'drive-default',
+	NOTION_DATABASE_ID: 'db-default',
+	GOOGLE_IMPERSONATE_USER: 'sync@example.com',
+	NOTION_FOLDER_ROOT_PAGE_ID: '',
+	SYNC_FILTER: '',
+};
+
+describe('parseSyncMappings', () => {
+	it('falls back to a single mapping from the legacy settings', () => {
+		expect(parseSyncMappings(baseEnv)).toEqual([
+			{
+				name: 'default',
+				driveId: 'drive-default',
+				databaseId: 'db-default',
+				impersonateUser: 'sync@example.com',
+				folderRootPageId: undefined,
+			},
+		]);
+	});
+
+	it('reads mappings from JSON, defaulting names and the impersonated user', () => {
+		const mappings = parseSyncMappings({
+			...baseEnv,
+			SYNC_MAPPINGS: JSON.stringify([
+				{ name: 'Engineering', driveId: 'drive-eng', databaseId: 'db-eng' },
+				{ driveId: 'drive-hr', folderId: 'folder-policies', databaseId: 'db-hr', impersonateUser: 'hr@example.com' },
+			]),
+		});
+		expect(mappings.map((m) => [m.name, m.driveId, m.folderId, m.databaseId, m.impersonateUser])).toEqual([
+			['Engineering', 'drive-eng', undefined, 'db-eng', 'sync@example.com'],
+			['mapping-2', 'drive-hr', 'folder-policies', 'db-hr', 'hr@example.com'],
+		]);
+	});
+
+	it('applies SYNC_FILTER to mappings without their own filter', () => {
+		const mappings = parseSyncMappings({
+			...baseEnv,
+			SYNC_FILTER: JSON.stringify({ exclude: ['Archive'] }),
+			SYNC_MAPPINGS: JSON.stringify([
+				{ name: 'eng', driveId: 'drive-eng', databaseId: 'db-eng' },
+				{ name: 'hr', driveId: 'drive-hr', databaseId: 'db-hr', filter: { excludeTitlePrefixes: ['[DRAFT]'] } },
+			]),
+		});
+		expect(mappings.map((m) => m.filter)).toEqual([{ exclude: ['Archive'] }, { excludeTitlePrefixes: ['[DRAFT]'] }]);
+		expect(parseSyncMappings({ ...baseEnv, SYNC_FILTER: '{"include":["Docs/**"]}' })[0].filter).toEqual({ include: ['Docs/**'] });
+	});
+
+	it.each([
+		['not json', /not valid JSON/],
+		['[]', /non-empty JSON array/],
+		['[{"driveId":"d"}]', /SYNC_MAPPINGS\[0\]\.databaseId is required/],
+		['[{"name":"a","driveId":"d","databaseId":"x"},{"name":"a","driveId":"e","databaseId":"y"}]', /more than one mapping named "a"/],
+		['[{"name":"a","driveId":"d","databaseId":"ab-cd"},{"name":"b","driveId":"e","databaseId":"ABCD"}]', /"a" and "b" sync into the same database/],
+		['[{"driveId":"d","databaseId":"x","filter":{"exclude":"Archive"}}]', /SYNC_MAPPINGS\[0\]\.filter\.exclude must be an array/],
+		['[{"driveId":"d","databaseId":"x","filter":{"skip":["a"]}}]', /unknown rule\(s\): skip/],
+	])('rejects %j', (config, message) => {
+		expect(() => parseSyncMappings({ ...baseEnv, SYNC_MAPPINGS: config })).toThrow(message);
+	});
+});
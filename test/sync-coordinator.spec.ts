@@ -0,0 +1,76 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { SyncCoordinator, SyncRun } from '../src/sync-coordinator';
+
+function coordinator(name: string) {
+	return env.SYNC_COORDINATOR.get(env.SYNC_COORDINATOR.idFromName(name));
+}
+
+const doc = {
+	id: 'doc-1',
+	name: 'Handbook',
+	mimeType: 'application/vnd.google-apps.document',
+	modifiedTime: '2024-01-01T00:00:00Z',
+	folderPath: [],
+};
+
+const shortcut = {
+	id: 'shortcut-1',
+	targetId: 'folder-2',
+	targetMimeType: 'application/vnd.google-apps.folder',
+	folderPath: ['Links'],
+};
+
+describe('SyncCoordinator', () => {
+	it('lets one run hold the lock until it finishes', async () => {
+		const stub = coordinator('lock');
+		const first = await stub.begin();
+		expect(first.status).toBe('started');
+		expect((await stub.begin()).status).toBe('busy');
+
+		await stub.finish(first.run.id);
+		const next = await stub.begin();
+		expect(next.status).toBe('started');
+		expect(next.run.id).not.toBe(first.run.id);
+	});
+
+	it('keeps the lock for a producer that checks in, and hands it over once it stops', async () => {
+		const stub = coordinator('lease');
+		const { run } = await stub.begin();
+		const lastCheckedIn = (minutesAgo: number) =>
+			runInDurableObject(stub, async (_instance: SyncCoordinator, state) => {
+				const stored = (await state.storage.get<SyncRun>('run'))!;
+				await state.storage.put('run', { ...stored, heartbeatAt: Date.now() - minutesAgo * 60_000 });
+			});
+
+		await lastCheckedIn(9);
+		await stub.heartbeat(run.id);
+		await lastCheckedIn(0);
+		expect((await stub.begin()).status).toBe('busy');
+
+		await lastCheckedIn(11);
+		const resumed = await stub.begin();
+		expect(resumed).toMatchObject({ status: 'resumed', run: { id: run.id } });
+	});
+
+	it('checkpoints listings and counts processed docs', async () => {
+		const stub = coordinator('checkpoint');
+		const { run } = await stub.begin();
+		await stub.saveListing(run.id, 'eng', { mode: 'full', docs: [doc], shortcuts: [shortcut], removedIds: [], nextToken: 't1' });
+		await stub.markEnqueued(run.id, 'eng', 1);
+		expect(await stub.listedDocs(run.id, 'eng')).toEqual([doc]);
+		expect(await stub.listedShortcuts(run.id, 'eng')).toEqual([shortcut]);
+
+		await stub.releaseDoc(run.id, 'eng', doc.id, 'processed');
+		const progress = await stub.progress();
+		expect(progress?.mappings.eng).toMatchObject({ stage: 'listed', total: 1, enqueued: 1, processed: 1 });
+	});
+
+	it('hands a doc to one consumer at a time', async () => {
+		const stub = coordinator('claims');
+		expect(await stub.claimDoc('eng', doc.id)).toBe(true);
+		expect(await stub.claimDoc('eng', doc.id)).toBe(false);
+		await stub.releaseDoc('no-run', 'eng', doc.id, 'retry');
+		expect(await stub.claimDoc('eng', doc.id)).toBe(true);
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createPathFilter, filterFingerprint, globToRegExp } from '../src/lib/sync-filter';
+
+describe('globToRegExp', () => {
+	it('keeps * within a folder and lets ** span folders', () => {
+		expect(globToRegExp('Eng/*.md').test('Eng/notes.md')).toBe(true);
+		expect(globToRegExp('Eng/*.md').test('Eng/sub/notes.md')).toBe(false);
+		expect(globToRegExp('Eng/**').test('Eng/sub/notes.md')).toBe(true);
+		expect(globToRegExp('**/drafts').test('Drafts')).toBe(true);
+		expect(globToRegExp('Q?.(final)').test('q3.(FINAL)')).toBe(true);
+	});
+});
+
+describe('createPathFilter', () => {
+	it('excludes folders by name anywhere, by path from the root and by ID', () => {
+		const filter = createPathFilter({ exclude: ['Archive', 'Team/Scratch*'], excludeFolderIds: ['folder-9'] });
+		expect(filter.excludesFolder('a', ['Team', 'Old', 'Archive'])).toBe(true);
+		expect(filter.excludesFolder('b', ['Team', 'Scratch - Sam'])).toBe(true);
+		expect(filter.excludesFolder('c', ['Other', 'Team', 'Scratch'])).toBe(false);
+		expect(filter.excludesFolder('folder-9', ['Team'])).toBe(true);
+		expect(filter.excludesFolder('d', ['Team'])).toBe(false);
+	});
+
+	it('includes docs matching an include glob unless excluded or a draft', () => {
+		const filter = createPathFilter({
+			include: ['Engineering', '*.md'],
+			exclude: ['**/Old/**'],
+			excludeTitlePrefixes: ['[DRAFT]'],
+		});
+		expect(filter.includesDoc('Spec', ['Engineering', 'Platform'])).toBe(true);
+		expect(filter.includesDoc('notes.md', ['Sales'])).toBe(true);
+		expect(filter.includesDoc('Plan', ['Sales'])).toBe(false);
+		expect(filter.includesDoc('Spec', ['Engineering', 'Old', '2023'])).toBe(false);
+		expect(filter.includesDoc(' [draft] Spec', ['Engineering'])).toBe(false);
+	});
+
+	it('lets everything through without rules', () => {
+		expect(createPathFilter().includesDoc('Anything', ['Any'])).toBe(true);
+		expect(filterFingerprint({})).toBe('');
+		expect(filterFingerprint({ exclude: ['Archive'] })).toMatch(/^[0-9a-f]{8}$/);
+		expect(filterFingerprint({ exclude: ['Archive'] })).not.toBe(filterFingerprint({ exclude: ['Drafts'] }));
+	});
+});
@@ -11,6 +11,18 @@ declare namespace Cloudflare {
 		GOOGLE_DRIVE_SHARED_DRIVE_ID: string;
 		NOTION_API_KEY: string;
 		NOTION_DATABASE_ID: string;
+		SYNC_STATE: KVNamespace;
+		SYNC_QUEUE: Queue;
+		SYNC_COORDINATOR: DurableObjectNamespace<import("./src/index").SyncCoordinator>;
+		DEEP_HEADINGS: string;
+		TOGGLE_HEADINGS: string;
+		REMOVED_STATUS: string;
+		MAX_REMOVED_FRACTION: string;
+		FULL_SYNC_INTERVAL_HOURS: string;
+		NOTION_FOLDER_ROOT_PAGE_ID: string;
+		SYNC_MAPPINGS: string;
+		SHEETS_MODE: string;
+		SYNC_FILTER: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -18,7 +30,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "GOOGLE_SERVICE_ACCOUNT_JSON" | "GOOGLE_IMPERSONATE_USER" | "GOOGLE_DRIVE_SHARED_DRIVE_ID" | "NOTION_API_KEY" | "NOTION_DATABASE_ID">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "GOOGLE_SERVICE_ACCOUNT_JSON" | "GOOGLE_IMPERSONATE_USER" | "GOOGLE_DRIVE_SHARED_DRIVE_ID" | "NOTION_API_KEY" | "NOTION_DATABASE_ID" | "DEEP_HEADINGS" | "TOGGLE_HEADINGS" | "REMOVED_STATUS" | "MAX_REMOVED_FRACTION" | "FULL_SYNC_INTERVAL_HOURS" | "NOTION_FOLDER_ROOT_PAGE_ID" | "SYNC_MAPPINGS" | "SHEETS_MODE" | "SYNC_FILTER">> {}
 }
 
 // Begin runtime types